@@ -0,0 +1,66 @@
+/**
+ * Build-time script: converts a local collision dump into the region files the
+ * pathfinder reads from public/data/collision/ (format in src/types/Collision.ts).
+ *
+ * Input is a directory of per-region flag files named "<regionX>_<regionY>",
+ * such as the entries of collision-map.zip from the RuneLite Shortest Path
+ * plugin once unzipped. Each file is a Java BitSet.toByteArray() dump with two
+ * flags per tile (north, east) for four planes, which is the layout the app
+ * uses, so files are validated and zero-padded rather than re-encoded.
+ *
+ * No collision data is fetched or bundled; without it the app falls back to
+ * straight-line distances.
+ *
+ * Usage:
+ *   npm run build:collision -- <dump-dir>
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { COLLISION_FORMAT, COLLISION_VERSION, type CollisionIndex } from "../src/types/Collision";
+import { REGION_BYTES } from "../src/util/pathfinding";
+
+const OUTPUT_DIR = path.join(process.cwd(), "public", "data", "collision");
+const REGION_NAME = /^(\d+)_(\d+)$/;
+
+function convertRegion(inputPath: string): Uint8Array | null {
+  const bytes = fs.readFileSync(inputPath);
+  if (bytes.length > REGION_BYTES) {
+    console.warn(`[build-collision-map] ${path.basename(inputPath)} is ${bytes.length} bytes (max ${REGION_BYTES}), skipping.`);
+    return null;
+  }
+  // BitSet.toByteArray() drops trailing zero bytes.
+  const region = new Uint8Array(REGION_BYTES);
+  region.set(bytes);
+  return region;
+}
+
+function main(): void {
+  const inputDir = process.argv[2];
+  if (!inputDir || !fs.existsSync(inputDir) || !fs.statSync(inputDir).isDirectory()) {
+    console.error("Usage: npm run build:collision -- <dump-dir>");
+    process.exit(1);
+  }
+
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+  const regions: string[] = [];
+
+  for (const name of fs.readdirSync(inputDir).sort()) {
+    if (!REGION_NAME.test(name)) continue;
+    const region = convertRegion(path.join(inputDir, name));
+    if (!region) continue;
+    fs.writeFileSync(path.join(OUTPUT_DIR, `${name}.bin`), region);
+    regions.push(name);
+  }
+
+  if (regions.length === 0) {
+    console.error(`No region files named <regionX>_<regionY> found in ${inputDir}`);
+    process.exit(1);
+  }
+
+  const index: CollisionIndex = { format: COLLISION_FORMAT, version: COLLISION_VERSION, regions };
+  fs.writeFileSync(path.join(OUTPUT_DIR, "index.json"), JSON.stringify(index), "utf-8");
+  console.log(`Wrote ${regions.length} regions to ${OUTPUT_DIR}`);
+}
+
+main();
@@ -0,0 +1,73 @@
+/**
+ * Build-time script: writes public/data/quest-index.json (format in
+ * src/types/QuestIndex.ts) from the quest files in public/data/quests.
+ *
+ * Quest Helper's Java source doesn't say whether a quest is members-only, how
+ * difficult it is or which series it belongs to, so those come from
+ * scripts/quest-metadata.json, keyed by quest name. The quest file's own
+ * questPoints wins when it is set; otherwise the metadata value is used.
+ *
+ * Usage:
+ *   npm run build:quest-index
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import type { QuestData, WorldPoint } from "../src/types/QuestData";
+import type { QuestDifficulty, QuestIndex, QuestIndexEntry } from "../src/types/QuestIndex";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const METADATA_PATH = path.join(__dirname, "quest-metadata.json");
+const QUESTS_DIR = path.join(__dirname, "..", "public", "data", "quests");
+const OUTPUT_PATH = path.join(__dirname, "..", "public", "data", "quest-index.json");
+
+interface QuestMetadata {
+  questPoints?: number;
+  members?: boolean;
+  difficulty?: QuestDifficulty | null;
+  series?: string | null;
+}
+
+function loadMetadata(): Record<string, QuestMetadata> {
+  if (!fs.existsSync(METADATA_PATH)) return {};
+  return JSON.parse(fs.readFileSync(METADATA_PATH, "utf-8"));
+}
+
+function findStart(quest: QuestData): WorldPoint | null {
+  for (const panel of quest.steps) {
+    for (const step of panel.steps) {
+      if (step.worldpoint) return step.worldpoint;
+    }
+  }
+  return null;
+}
+
+function main(): void {
+  const metadata = loadMetadata();
+  const quests: QuestIndexEntry[] = [];
+
+  for (const file of fs.readdirSync(QUESTS_DIR).filter((name) => name.endsWith(".json")).sort()) {
+    const quest: QuestData = JSON.parse(fs.readFileSync(path.join(QUESTS_DIR, file), "utf-8"));
+    const meta = metadata[quest.name];
+    if (!meta) console.warn(`[build-quest-index] No metadata for "${quest.name}" (${file}); add it to quest-metadata.json.`);
+
+    quests.push({
+      name: quest.name,
+      file,
+      questPoints: quest.questPoints || meta?.questPoints || 0,
+      members: meta?.members ?? true,
+      difficulty: meta?.difficulty ?? null,
+      series: meta?.series ?? null,
+      start: findStart(quest),
+    });
+  }
+
+  quests.sort((a, b) => a.name.localeCompare(b.name));
+  const index: QuestIndex = { quests };
+  fs.writeFileSync(OUTPUT_PATH, JSON.stringify(index, null, 2), "utf-8");
+  console.log(`Wrote ${quests.length} quests to ${OUTPUT_PATH}`);
+}
+
+main();
@@ -0,0 +1,60 @@
+package com.questhelper.helpers.quests.doricsquest;
+
+public class DoricsQuest extends BasicQuestHelper
+{
+	ItemRequirement clay, copper, iron;
+	QuestStep talkToDoric, giveItems;
+
+	@Override
+	public Map<Integer, QuestStep> loadSteps()
+	{
+		setupRequirements();
+		setupSteps();
+		Map<Integer, QuestStep> steps = new HashMap<>();
+		steps.put(0, talkToDoric);
+		steps.put(10, giveItems);
+		return steps;
+	}
+
+	protected void setupRequirements()
+	{
+		clay = new ItemRequirement("Clay", ItemID.CLAY, 6);
+		copper = new ItemRequirement("Copper ore", ItemID.COPPER_ORE, 4);
+		iron = new ItemRequirement("Iron ore", ItemID.IRON_ORE, 2);
+	}
+
+	public void setupSteps()
+	{
+		// Both steps share a description, so their IDs must come from the variable names.
+		talkToDoric = new NpcStep(this, NpcID.DORIC, new WorldPoint(2951, 3450, 0), "Talk to Doric north of Falador.");
+		talkToDoric.addDialogStep("I wanted to use your anvils.");
+		giveItems = new NpcStep(this, NpcID.DORIC, new WorldPoint(2951, 3450, 0), "Talk to Doric north of Falador.", clay, copper, iron);
+	}
+
+	@Override
+	public List<ItemRequirement> getItemRequirements()
+	{
+		return Arrays.asList(clay, copper, iron);
+	}
+
+	@Override
+	public QuestPointReward getQuestPointReward()
+	{
+		return new QuestPointReward(1);
+	}
+
+	@Override
+	public List<ExperienceReward> getExperienceRewards()
+	{
+		return Collections.singletonList(new ExperienceReward(Skill.MINING, 1300));
+	}
+
+	@Override
+	public List<PanelDetails> getPanels()
+	{
+		List<PanelDetails> allSteps = new ArrayList<>();
+		allSteps.add(new PanelDetails("Starting off", Collections.singletonList(talkToDoric)));
+		allSteps.add(new PanelDetails("Bring the ores", Collections.singletonList(giveItems), clay, copper, iron));
+		return allSteps;
+	}
+}
@@ -0,0 +1,77 @@
+package com.questhelper.helpers.quests.waterfallquest;
+
+public class WaterfallQuest extends BasicQuestHelper
+{
+	ItemRequirement rope, tinderbox, coins;
+	Requirement hasRope;
+	QuestStep talkToAlmera, talkToHudon, goUpstairs, searchRock;
+	ConditionalStep goToHudon;
+
+	@Override
+	public Map<Integer, QuestStep> loadSteps()
+	{
+		setupRequirements();
+		setupSteps();
+		Map<Integer, QuestStep> steps = new HashMap<>();
+		steps.put(0, talkToAlmera);
+		steps.put(1, goToHudon);
+		return steps;
+	}
+
+	protected void setupRequirements()
+	{
+		rope = new ItemRequirement("Rope", ItemID.ROPE);
+		tinderbox = new ItemRequirement("Tinderbox", ItemID.TINDERBOX).isNotConsumed();
+		coins = new ItemRequirement("Coins", ItemCollections.COINS, 50);
+		hasRope = new ItemRequirements(rope);
+	}
+
+	public void setupSteps()
+	{
+		WorldPoint almeraHouse = new WorldPoint(2521, 3495, 0);
+		talkToAlmera = new NpcStep(this, NpcID.ALMERA, almeraHouse, "Talk to Almera.", rope, tinderbox.quantity(1));
+		talkToHudon = new NpcStep(this, NpcID.HUDON, new WorldPoint(2511, 3481, 0), "Talk to Hudon on the raft.");
+		goUpstairs = new ObjectStep(this, ObjectID.LADDER_16683, new WorldPoint(2500, 3490, 0), "Climb the ladder.", coins);
+		goToHudon = new ConditionalStep(this, talkToHudon);
+		goToHudon.addStep(hasRope, goUpstairs);
+		searchRock = new ObjectStep(this, ObjectID.ROCK, new WorldPoint(2512, 3468, 0), "Search the rock.");
+	}
+
+	@Override
+	public List<ItemRequirement> getItemRequirements()
+	{
+		return Arrays.asList(rope, tinderbox, coins);
+	}
+
+	@Override
+	public List<Requirement> getGeneralRequirements()
+	{
+		List<Requirement> req = new ArrayList<>();
+		req.add(new SkillRequirement(Skill.AGILITY, 10));
+		req.add(new QuestRequirement(QuestHelperQuest.DORICS_QUEST, QuestState.FINISHED));
+		return req;
+	}
+
+	@Override
+	public QuestPointReward getQuestPointReward()
+	{
+		return new QuestPointReward(1);
+	}
+
+	@Override
+	public List<ExperienceReward> getExperienceRewards()
+	{
+		return Arrays.asList(
+			new ExperienceReward(Skill.ATTACK, 13_750),
+			new ExperienceReward(Skill.STRENGTH, 13750));
+	}
+
+	@Override
+	public List<PanelDetails> getPanels()
+	{
+		List<PanelDetails> allSteps = new ArrayList<>();
+		allSteps.add(new PanelDetails("Starting off", Arrays.asList(talkToAlmera, goToHudon), rope, tinderbox));
+		allSteps.add(new PanelDetails("Into the falls", Arrays.asList(searchRock, missingStep)));
+		return allSteps;
+	}
+}
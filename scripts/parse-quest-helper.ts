@@ -9,27 +9,61 @@
  * Quest URLs are built from scripts/approved-quests.json using the pattern:
  *   <questname>/<QuestName>.java  (lowercase / PascalCase.java)
  *
+ * With --source (or QUEST_HELPER_SOURCE) the same paths are read from a local
+ * directory instead: either a quest-helper checkout or a fixture directory
+ * laid out as <questname>/<QuestName>.java.
+ *
+ * With --check nothing is written; the parsed quests are compared with the
+ * committed files in public/data/quests and the script exits with status 1
+ * when any quest differs.
+ *
+ * With --fixtures <dir> everything is read from a self-contained fixture set
+ * instead: sources from <dir>/java, summaries and expected quest files from
+ * <dir>/data, and the quest list from <dir>/approved-quests.json. Combined
+ * with --check it tests the parser against the expected files.
+ *
+ * With --diaries the achievement diary helpers listed in
+ * scripts/approved-diaries.json are parsed instead, one DiaryData file per
+ * tier in public/data/diaries plus an index.json listing them. Each getPanels()
+ * panel is one diary task.
+ *
  * Usage:
- *   npx tsx scripts/parseQuestPanels.ts
+ *   npx tsx scripts/parse-quest-helper.ts [--source <dir> | --fixtures <dir>] [--check | --diaries]
  */
 
 import * as path from "path";
 import * as fs from "fs";
 import { fileURLToPath } from "url";
-import type {
-  QuestData,
-  QuestPanel,
-  WorldPoint,
+import {
+  QUEST_DATA_VERSION,
+  Skill,
+  type ExperienceReward,
+  type LampReward,
+  type QuestData,
+  type QuestPanel,
+  type SkillRequirement,
+  type WorldPoint,
 } from "../src/types/QuestData";
-import type { RawStep } from "../src/types/Steps";
+import type { EntityRef, RawStep, StepAlternative, StepItemRequirement } from "../src/types/Steps";
+import type { ParserDiagnostic, ParserDiagnosticsReport, QuestDiagnostics } from "../src/types/ParserDiagnostics";
+import type { DiaryData, DiaryIndex, DiaryIndexEntry, DiaryTask, DiaryTier } from "../src/types/DiaryData";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
-const GITHUB_RAW_BASE =
-  "https://raw.githubusercontent.com/Zoinkwiz/quest-helper/refs/heads/master/src/main/java/com/questhelper/helpers/quests";
+const QUESTS_SOURCE_PATH = "src/main/java/com/questhelper/helpers/quests";
+const DIARIES_SOURCE_PATH = "src/main/java/com/questhelper/helpers/achievementdiaries";
+const GITHUB_RAW_BASE = "https://raw.githubusercontent.com/Zoinkwiz/quest-helper/refs/heads/master";
 
 const APPROVED_QUESTS_PATH = path.join(__dirname, "approved-quests.json");
-const QUESTS_OUTPUT_DIR = path.join(__dirname, "..", "public", "data", "quests");
+const APPROVED_DIARIES_PATH = path.join(__dirname, "approved-diaries.json");
+const QUEST_METADATA_PATH = path.join(__dirname, "quest-metadata.json");
+const DATA_DIR = path.join(__dirname, "..", "public", "data");
+const NPCS_SUMMARY_FILE = "npcs-summary.json";
+const ITEMS_SUMMARY_FILE = "items-summary.json";
+const OBJECTS_SUMMARY_FILE = "objects-summary.json";
+const DIAGNOSTICS_FILE = "parser-diagnostics.json";
+const DIARIES_OUTPUT_DIR = path.join(DATA_DIR, "diaries");
+const DIARY_INDEX_PATH = path.join(DIARIES_OUTPUT_DIR, "index.json");
 
 /**
  * Convert a quest display name (e.g. "Tree Gnome Village") to camelCase for filenames.
@@ -48,6 +82,17 @@ function questNameToCamelCase(questName: string): string {
   return first + rest;
 }
 
+/**
+ * Output filename for a quest. Reuses a committed file whose name differs only
+ * in case (several predate questNameToCamelCase), so re-runs overwrite it
+ * rather than adding a second copy on case-sensitive file systems.
+ */
+function questOutputFilename(questName: string, questsDir: string): string {
+  const filename = `${questNameToCamelCase(questName)}.json`;
+  if (!fs.existsSync(questsDir)) return filename;
+  return fs.readdirSync(questsDir).find((name) => name.toLowerCase() === filename.toLowerCase()) ?? filename;
+}
+
 /**
  * Convert a quest display name (e.g. "Tree Gnome Village") to the URL path pattern
  * <questname>/<QuestName>.java (lowercase / PascalCase).
@@ -64,28 +109,139 @@ function questNameToPath(questName: string): string {
   return `${base}/${pascal}`;
 }
 
-function loadApprovedQuests(): string[] {
+function loadApprovedQuests(approvedQuestsPath: string): string[] {
+  const data = JSON.parse(
+    fs.readFileSync(approvedQuestsPath, "utf-8")
+  ) as Record<string, boolean>;
+  return Object.keys(data).filter((name) => data[name] === true);
+}
+
+/**
+ * Quest Helper folder and class prefix per diary area, e.g.
+ * lumbridgeanddraynor/LumbridgeEasy.java; most areas are just the area name.
+ */
+const DIARY_AREA_PATHS: Record<string, { folder: string; prefix: string }> = {
+  Ardougne: { folder: "ardougne", prefix: "Ardougne" },
+  Desert: { folder: "desert", prefix: "Desert" },
+  Falador: { folder: "falador", prefix: "Falador" },
+  Fremennik: { folder: "fremennik", prefix: "Fremennik" },
+  Kandarin: { folder: "kandarin", prefix: "Kandarin" },
+  Karamja: { folder: "karamja", prefix: "Karamja" },
+  "Kourend & Kebos": { folder: "kourend", prefix: "Kourend" },
+  "Lumbridge & Draynor": { folder: "lumbridgeanddraynor", prefix: "Lumbridge" },
+  Morytania: { folder: "morytania", prefix: "Morytania" },
+  Varrock: { folder: "varrock", prefix: "Varrock" },
+  "Western Provinces": { folder: "westernprovinces", prefix: "Western" },
+  Wilderness: { folder: "wilderness", prefix: "Wilderness" },
+};
+
+const DIARY_TIERS: DiaryTier[] = ["Easy", "Medium", "Hard", "Elite"];
+
+/** "Lumbridge & Draynor Easy" → { area: "Lumbridge & Draynor", tier: "Easy" }; undefined for unknown areas or tiers. */
+function parseDiaryName(diaryName: string): { area: string; tier: DiaryTier } | undefined {
+  const match = diaryName.trim().match(/^(.+)\s+(\S+)$/);
+  const tier = DIARY_TIERS.find((t) => t === match?.[2]);
+  if (!match || !tier || !DIARY_AREA_PATHS[match[1]]) return undefined;
+  return { area: match[1], tier };
+}
+
+function diaryNameToPath(area: string, tier: DiaryTier): string {
+  const { folder, prefix } = DIARY_AREA_PATHS[area];
+  return `${folder}/${prefix}${tier}`;
+}
+
+function loadApprovedDiaries(): string[] {
+  if (!fs.existsSync(APPROVED_DIARIES_PATH)) return [];
   const data = JSON.parse(
-    fs.readFileSync(APPROVED_QUESTS_PATH, "utf-8")
+    fs.readFileSync(APPROVED_DIARIES_PATH, "utf-8")
   ) as Record<string, boolean>;
   return Object.keys(data).filter((name) => data[name] === true);
 }
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
+interface ParserOptions {
+  /** Local quest-helper checkout or fixture directory; null fetches from GitHub. */
+  sourceDir: string | null;
+  /** Compare against the committed quest files instead of writing them. */
+  check: boolean;
+  /** Parse the approved achievement diaries instead of quests. */
+  diaries: boolean;
+  /** Holds the entity summaries and the quests/ directory written or checked. */
+  dataDir: string;
+  approvedQuestsPath: string;
+}
 
+/**
+ * A fixture set is a small, self-contained copy of the inputs and expected
+ * output: `java/` sources, `data/` summaries, `data/quests/` expected quest
+ * files and its own `approved-quests.json`. With --check the parser is
+ * compared against it; without, the expected files are rewritten.
+ */
+function applyFixturesDir(options: ParserOptions, fixturesDir: string): void {
+  options.sourceDir = path.join(fixturesDir, "java");
+  options.dataDir = path.join(fixturesDir, "data");
+  options.approvedQuestsPath = path.join(fixturesDir, "approved-quests.json");
+}
 
+function parseOptions(argv: string[]): ParserOptions {
+  const usage = "Usage: parse-quest-helper.ts [--source <dir> | --fixtures <dir>] [--check | --diaries]";
+  const options: ParserOptions = {
+    sourceDir: process.env.QUEST_HELPER_SOURCE || null,
+    check: false,
+    diaries: false,
+    dataDir: DATA_DIR,
+    approvedQuestsPath: APPROVED_QUESTS_PATH,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--check") options.check = true;
+    else if (argv[i] === "--diaries") options.diaries = true;
+    else if (argv[i] === "--source") options.sourceDir = argv[++i] ?? null;
+    else if (argv[i].startsWith("--source=")) options.sourceDir = argv[i].slice("--source=".length);
+    else if (argv[i] === "--fixtures") applyFixturesDir(options, argv[++i] ?? "");
+    else if (argv[i].startsWith("--fixtures=")) applyFixturesDir(options, argv[i].slice("--fixtures=".length));
+    else throw new Error(`Unknown argument "${argv[i]}". ${usage}`);
+  }
+  if (options.diaries && options.dataDir !== DATA_DIR) {
+    throw new Error(`--fixtures only covers quests and can't be combined with --diaries. ${usage}`);
+  }
+  if (options.check && options.diaries) {
+    throw new Error(`--check only covers quests and can't be combined with --diaries. ${usage}`);
+  }
+  if (options.sourceDir && !fs.existsSync(options.sourceDir)) {
+    throw new Error(`Source directory not found: ${options.sourceDir}`);
+  }
+  return options;
+}
 
 // ─── Fetch ────────────────────────────────────────────────────────────────────
 
-async function fetchQuestFile(questPath: string): Promise<string> {
-  const url = `${GITHUB_RAW_BASE}/${questPath}.java`;
+async function fetchHelperFile(sourcePath: string, helperPath: string): Promise<string> {
+  const url = `${GITHUB_RAW_BASE}/${sourcePath}/${helperPath}.java`;
   console.log(`Fetching: ${url}`);
   const res = await fetch(url);
   if (!res.ok) throw new Error(`HTTP ${res.status}: ${url}`);
   return res.text();
 }
 
+/** Reads a helper from a quest-helper checkout, falling back to a flat fixture layout. */
+function readLocalHelperFile(sourceDir: string, sourcePath: string, helperPath: string): string {
+  const candidates = [
+    path.join(sourceDir, sourcePath, `${helperPath}.java`),
+    path.join(sourceDir, `${helperPath}.java`),
+  ];
+  const file = candidates.find((candidate) => fs.existsSync(candidate));
+  if (!file) throw new Error(`Not found in ${sourceDir}: ${helperPath}.java`);
+  return fs.readFileSync(file, "utf-8");
+}
+
+/** Java source of a quest (under QUESTS_SOURCE_PATH) or diary (under DIARIES_SOURCE_PATH) helper. */
+function loadHelperSource(sourcePath: string, helperPath: string, options: ParserOptions): Promise<string> {
+  return options.sourceDir
+    ? Promise.resolve(readLocalHelperFile(options.sourceDir, sourcePath, helperPath))
+    : fetchHelperFile(sourcePath, helperPath);
+}
+
 // ─── Core utilities ───────────────────────────────────────────────────────────
 
 /**
@@ -298,11 +454,15 @@ function extractMethodBody(source: string, methodPattern: RegExp): string | null
 //
 // Constructor argument mappings (1-indexed in spec, 0-indexed here):
 //
-//   NpcStep / ObjectStep      worldPoint=arg[2]? description=arg[2]/arg[3]
+//   NpcStep / ObjectStep      entity=arg[1] worldPoint=arg[2]? description=arg[2]/arg[3]
 //   ConditionalStep           description=arg[2] worldPoint=none
 //   ItemStep                  description=arg[1] worldPoint=none
 //   DetailedQuestStep         arg[1] is WorldPoint OR description string
 //   PuzzleWrapperStep         description=last string arg, worldPoint=none
+//
+// NpcStep, ObjectStep, ItemStep and DetailedQuestStep take their item
+// requirements as trailing varargs; those arguments are kept as `itemArgs` and
+// resolved against the file's ItemRequirement declarations in parseAllSteps().
 
 function parseStepConstructor(
   constructorName: string,
@@ -326,10 +486,13 @@ function parseStepConstructor(
         .slice(2)
         .map((arg) => extractStringArg(arg))
         .find((s) => s.length > 0) ?? "";
+    const entity = parseEntityArg(constructorName === "NpcStep" ? "npc" : "object", args[1]);
 
     return {
       worldpoint,
       description,
+      ...(entity ? { entity } : {}),
+      itemArgs: args.slice(2),
     };
   }
 
@@ -355,6 +518,7 @@ function parseStepConstructor(
     return {
       worldpoint,
       description,
+      itemArgs: args.slice(1),
     };
   }
 
@@ -380,10 +544,12 @@ function parseStepConstructor(
       return {
         worldpoint,
         description: args[2] ? extractStringArg(args[2]) : "",
+        itemArgs: args.slice(3),
       };
     }
     return {
       description: args[1] ? extractStringArg(args[1]) : "",
+      itemArgs: args.slice(2),
     };
   }
 
@@ -400,7 +566,7 @@ function parseStepConstructor(
       const innerArgsRaw = wrappedArg.slice(openParen + 1, closeParen);
       return parseStepConstructor(innerConstructor, innerArgsRaw, worldPointVars);
     }
-    return { description: "UNKNOWN STEP" };
+    return { description: "UNKNOWN STEP", unknownConstructor: constructorName };
   }
 
   const fallbackFromStrings =
@@ -410,20 +576,28 @@ function parseStepConstructor(
       knownCustomdescriptions[constructorName] ||
       fallbackFromStrings ||
       "UNKNOWN STEP",
+    ...(knownCustomdescriptions[constructorName] ? {} : { unknownConstructor: constructorName }),
   };
 }
 
 // ─── addStep resolver ─────────────────────────────────────────────────────────
 
+/** One varName.addStep(condition, step) call. */
+interface AddStepCall {
+  /** arg[0] as written, whitespace collapsed, e.g. "new Conditions(hasRope, inCave)". */
+  condition: string;
+  stepVar: string;
+}
+
 /**
  * Finds all varName.addStep(...) calls in a method body and returns the
- * plain-identifier step variable names from arg[1] of each call, in order.
+ * condition text and plain-identifier step variable name of each call, in order.
  * Calls where arg[1] is a complex expression (e.g. new Conditions(...)) are skipped.
  */
-function findAddStepVarNames(methodBody: string, varName: string): string[] {
+function findAddStepCalls(methodBody: string, varName: string): AddStepCall[] {
   const cleaned = stripCommentsAndStrings(methodBody);
   const pattern = new RegExp(`\\b${varName}\\s*\\.\\s*addStep\\s*\\(`, "g");
-  const results: string[] = [];
+  const results: AddStepCall[] = [];
   let match: RegExpExecArray | null;
 
   while ((match = pattern.exec(cleaned)) !== null) {
@@ -431,14 +605,20 @@ function findAddStepVarNames(methodBody: string, varName: string): string[] {
     const closeParen = findMatchingClose(cleaned, openParen, "(", ")");
     if (closeParen === -1) continue;
     const argsRaw = methodBody.slice(openParen + 1, closeParen);
-    const stepArg = (splitTopLevelArgs(argsRaw)[1] ?? "").trim();
+    const [conditionArg = "", stepArg = ""] = splitTopLevelArgs(argsRaw).map((arg) => arg.trim());
     // Only accept plain identifiers — skip new Conditions(...), and(...), etc.
-    if (/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(stepArg)) results.push(stepArg);
+    if (/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(stepArg)) {
+      results.push({ condition: conditionArg.replace(/\s+/g, " "), stepVar: stepArg });
+    }
   }
 
   return results;
 }
 
+function findAddStepVarNames(methodBody: string, varName: string): string[] {
+  return findAddStepCalls(methodBody, varName).map((call) => call.stepVar);
+}
+
 /**
  * Returns the plain-identifier arg[1] of a ConditionalStep constructor —
  * the default step it delegates to when no condition matches.
@@ -496,6 +676,46 @@ function resolveWorldPoint(
   return undefined;
 }
 
+/** ConditionalSteps nested deeper than this are left as a single branch. */
+const MAX_ALTERNATIVE_DEPTH = 3;
+
+/**
+ * Expands a ConditionalStep into its branches: one per addStep call, in order,
+ * then the default delegate with a null condition. Each branch carries its
+ * target step's own description, worldpoint and entity, and nested
+ * ConditionalSteps become nested alternatives. A step already on the current
+ * path is skipped so circular delegates terminate.
+ */
+function resolveAlternatives(
+  varName: string,
+  stepMap: Map<string, ParsedStep>,
+  body: string,
+  path: Set<string>
+): ParsedAlternative[] {
+  if (path.size >= MAX_ALTERNATIVE_DEPTH) return [];
+  const calls = findAddStepCalls(body, varName);
+  if (calls.length === 0) return [];
+
+  const branches: { condition: string | null; stepVar: string }[] = [...calls];
+  const defaultVar = getConditionalStepDefaultVar(body, varName);
+  if (defaultVar) branches.push({ condition: null, stepVar: defaultVar });
+
+  const nextPath = new Set(path).add(varName);
+  return branches.flatMap(({ condition, stepVar }): ParsedAlternative[] => {
+    const step = stepMap.get(stepVar);
+    if (!step || nextPath.has(stepVar)) return [];
+    const nested = resolveAlternatives(stepVar, stepMap, body, nextPath);
+    return [{
+      condition,
+      description: step.description,
+      ...(step.worldpoint !== undefined ? { worldpoint: step.worldpoint } : {}),
+      ...(step.entity !== undefined ? { entity: step.entity } : {}),
+      ...(step.items !== undefined ? { items: step.items } : {}),
+      ...(nested.length > 0 ? { alternatives: nested } : {}),
+    }];
+  });
+}
+
 function extractTextFromListCall(raw: string): string | undefined {
   const cleaned = stripCommentsAndStrings(raw);
   const listMatch = cleaned.match(/^(?:Arrays\.asList|List\.of)\s*\(/);
@@ -671,12 +891,27 @@ function parseAllSteps(source: string): Map<string, ParsedStep> {
     if (wp) step.worldpoint = wp;
   }
 
+  // Items are resolved before branches are collected so branches carry them too.
+  const itemDeclarations = parseItemRequirementDeclarations(source);
+  for (const step of stepMap.values()) resolveStepItems(step, itemDeclarations);
+
+  // Branches are collected first and attached afterwards so every branch
+  // copies its target step before that step gains alternatives of its own.
+  const alternatives = new Map<string, ParsedAlternative[]>();
+  for (const varName of stepMap.keys()) {
+    const branches = resolveAlternatives(varName, stepMap, bodyForResolution, new Set());
+    if (branches.length > 0) alternatives.set(varName, branches);
+  }
+  for (const [varName, branches] of alternatives) {
+    stepMap.set(varName, { ...stepMap.get(varName)!, alternatives: branches });
+  }
+
   return stepMap;
 }
 
 // ─── getPanels parser ─────────────────────────────────────────────────────────
 
-function parsePanels(source: string): { panelTitle: string; stepVars: string[] }[] {
+function parsePanels(source: string): { panelTitle: string; stepVars: string[]; requirementArgs: string[] }[] {
   const body = extractMethodBody(
     source,
     /(?:private|protected|public)?\s+[^{;]*\bgetPanels\s*\(\s*\)/
@@ -708,7 +943,7 @@ function parsePanels(source: string): { panelTitle: string; stepVars: string[] }
       .filter((s): s is string => s !== undefined);
     listVarMap.set(listVarName, entries);
   }
-  const results: { panelTitle: string; stepVars: string[] }[] = [];
+  const results: { panelTitle: string; stepVars: string[]; requirementArgs: string[] }[] = [];
   const pattern = /new\s+PanelDetails\s*\(/g;
   let match: RegExpExecArray | null;
 
@@ -722,7 +957,7 @@ function parsePanels(source: string): { panelTitle: string; stepVars: string[] }
 
     const panelTitle = extractStringArg(rawArgs[0] ?? "");
 
-    // arg[1] is the steps list; arg[2]+ are item/skill requirements (ignored)
+    // arg[1] is the steps list; arg[2]+ are item/skill requirements, read for diary tasks
     const secondArg = (rawArgs[1] ?? "").trim();
     const listMatch = secondArg.match(
       /^(?:List\.of|Arrays\.asList|Collections\.singletonList)\s*\(/
@@ -756,12 +991,456 @@ function parsePanels(source: string): { panelTitle: string; stepVars: string[] }
       })
       .filter((s): s is string => s !== undefined);
 
-    results.push({ panelTitle, stepVars });
+    results.push({ panelTitle, stepVars, requirementArgs: rawArgs.slice(2) });
   }
 
   return results;
 }
 
+// ─── Requirements and rewards ─────────────────────────────────────────────────
+//
+// Read from the QuestHelper overrides:
+//   getGeneralRequirements   SkillRequirement, QuestRequirement, QuestPointRequirement
+//   getItemRequirements      ItemRequirement / ItemRequirements
+//   getQuestPointReward      QuestPointReward(n)
+//   getExperienceRewards     ExperienceReward(Skill.X, xp)
+//   getItemRewards           ItemReward entries describing experience lamps
+//
+// Entries are either inline constructors or variables assigned elsewhere in
+// the file (usually setupRequirements()).
+
+interface ParsedRequirements {
+  questPoints: number;
+  experienceRewards: ExperienceReward[];
+  lampRewards: LampReward | null;
+  skillRequirements: SkillRequirement[];
+  questRequirements: string[];
+  questPointRequirement: number | null;
+  itemRequirements: string[];
+}
+
+interface ConstructorCall {
+  constructorName: string;
+  args: string[];
+}
+
+/** Every `name = new Constructor(...)` in the file, keyed by variable name; later assignments win. */
+function parseConstructorDeclarations(source: string): Map<string, ConstructorCall> {
+  const cleaned = stripCommentsAndStrings(source);
+  const declarations = new Map<string, ConstructorCall>();
+  const pattern = /([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*new\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(cleaned)) !== null) {
+    const openParen = match.index + match[0].length - 1;
+    const closeParen = findMatchingClose(cleaned, openParen, "(", ")");
+    if (closeParen === -1) continue;
+    declarations.set(match[1], {
+      constructorName: match[2],
+      args: splitTopLevelArgs(source.slice(openParen + 1, closeParen)),
+    });
+  }
+  return declarations;
+}
+
+/** Arguments of every list literal (`Arrays.asList`, `List.of`, `Collections.singletonList`) and `.add(...)` call in a method body. */
+function collectListEntries(body: string): string[] {
+  const cleaned = stripCommentsAndStrings(body);
+  const entries: string[] = [];
+  const pattern = /(?:Arrays\.asList|List\.of|Collections\.singletonList|\.\s*add|\.\s*addAll)\s*\(/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(cleaned)) !== null) {
+    const openParen = match.index + match[0].length - 1;
+    const closeParen = findMatchingClose(cleaned, openParen, "(", ")");
+    if (closeParen === -1) continue;
+    entries.push(...splitTopLevelArgs(body.slice(openParen + 1, closeParen)));
+    pattern.lastIndex = closeParen;
+  }
+  return entries;
+}
+
+/** Resolves an inline `new X(...)` or a declared variable to its constructor call. */
+function resolveConstructorCall(expression: string, declarations: Map<string, ConstructorCall>): ConstructorCall | undefined {
+  const cleaned = stripCommentsAndStrings(expression).trim();
+  const inline = cleaned.match(/^new\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/);
+  if (inline) {
+    const openParen = inline[0].length - 1;
+    const closeParen = findMatchingClose(cleaned, openParen, "(", ")");
+    if (closeParen === -1) return undefined;
+    return { constructorName: inline[1], args: splitTopLevelArgs(expression.trim().slice(openParen + 1, closeParen)) };
+  }
+  // Variables may carry builder calls, e.g. rope.quantity(2); only the variable matters here.
+  const variable = cleaned.match(/^([a-zA-Z_][a-zA-Z0-9_]*)/);
+  return variable ? declarations.get(variable[1]) : undefined;
+}
+
+function methodEntries(source: string, methodName: string, declarations: Map<string, ConstructorCall>): ConstructorCall[] {
+  const body = extractMethodBody(source, new RegExp(`\\s${methodName}\\s*\\(\\s*\\)\\s*(?:throws[^{]*)?\\{`));
+  if (!body) return [];
+  return collectListEntries(body)
+    .map((entry) => resolveConstructorCall(entry, declarations))
+    .filter((call): call is ConstructorCall => call !== undefined);
+}
+
+/** Integer literal such as 1_000 or 25; undefined for expressions. */
+function parseIntArg(raw: string | undefined): number | undefined {
+  if (raw === undefined) return undefined;
+  const cleaned = raw.trim().replace(/_/g, "");
+  return /^\d+$/.test(cleaned) ? parseInt(cleaned, 10) : undefined;
+}
+
+function parseSkillArg(raw: string | undefined): Skill | undefined {
+  const match = raw?.trim().match(/^Skill\.([A-Z_]+)$/);
+  if (!match) return undefined;
+  return (Object.values(Skill) as string[]).includes(match[1]) ? (match[1] as Skill) : undefined;
+}
+
+/** Lower-cased letters and digits only, so "DORICS_QUEST" and "Doric's Quest" compare equal. */
+function normalizeQuestName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/** Quest display names known to this repo, used to turn QuestHelperQuest constants back into names. */
+function loadKnownQuestNames(approvedQuestsPath: string): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const file of [approvedQuestsPath, QUEST_METADATA_PATH]) {
+    if (!fs.existsSync(file)) continue;
+    for (const name of Object.keys(JSON.parse(fs.readFileSync(file, "utf-8")))) {
+      names.set(normalizeQuestName(name), name);
+    }
+  }
+  return names;
+}
+
+/** QuestHelperQuest.TREE_GNOME_VILLAGE → "Tree Gnome Village", preferring a known spelling. */
+function questConstantToName(constant: string, knownNames: Map<string, string>): string {
+  const known = knownNames.get(normalizeQuestName(constant));
+  if (known) return known;
+  return constant
+    .split("_")
+    .filter(Boolean)
+    .map((word) => (/^[IVX]+$/.test(word) ? word : word.charAt(0) + word.slice(1).toLowerCase()))
+    .join(" ");
+}
+
+/** "2 x 2,500 Experience lamps (Any skill over level 40)" → { value: 2500, quantity: 2, skills: "Any skill over level 40" }. */
+function parseLampReward(call: ConstructorCall): LampReward | null {
+  const text = extractStringArg(call.args[0] ?? "");
+  if (!/lamp/i.test(text)) return null;
+  const valueMatch = text.match(/([\d,]+)\s*(?:experience|exp|xp)/i);
+  if (!valueMatch) return null;
+  const countMatch = text.match(/^(\d+)\s*x\s+/i);
+  const skillsMatch = text.match(/\(([^)]*)\)/);
+  return {
+    skills: skillsMatch?.[1].trim() ?? "Any skill",
+    value: parseInt(valueMatch[1].replace(/,/g, ""), 10),
+    quantity: parseIntArg(call.args[2]) ?? (countMatch ? parseInt(countMatch[1], 10) : 1),
+  };
+}
+
+/** "Rope" or "3x Coins"; the format parseItemRequirement reads in the app. */
+function formatItemRequirement(call: ConstructorCall): string | undefined {
+  const name = call.args.map(extractStringArg).find((arg) => arg.trim().length > 0)?.trim();
+  if (!name) return undefined;
+  const quantity = call.constructorName === "ItemRequirement" ? parseIntArg(call.args[2]) : undefined;
+  return quantity !== undefined && quantity > 1 ? `${quantity}x ${name}` : name;
+}
+
+/** Adds a SkillRequirement, QuestRequirement or QuestPointRequirement to `into`; other calls are ignored. */
+function applyGeneralRequirement(
+  call: ConstructorCall,
+  knownNames: Map<string, string>,
+  into: Pick<ParsedRequirements, "skillRequirements" | "questRequirements" | "questPointRequirement">
+): void {
+  if (call.constructorName === "SkillRequirement") {
+    const skill = parseSkillArg(call.args[0]);
+    const level = parseIntArg(call.args[1]);
+    if (skill && level !== undefined) into.skillRequirements.push({ skill, level });
+  } else if (call.constructorName === "QuestRequirement") {
+    const constant = call.args[0]?.trim().match(/^QuestHelperQuest\.([A-Z0-9_]+)$/)?.[1];
+    // Requirements on a quest merely being started aren't completion prerequisites.
+    const state = call.args[1]?.trim();
+    if (constant && (!state || state === "QuestState.FINISHED")) {
+      into.questRequirements.push(questConstantToName(constant, knownNames));
+    }
+  } else if (call.constructorName === "QuestPointRequirement") {
+    into.questPointRequirement = parseIntArg(call.args[0]) ?? null;
+  }
+}
+
+/** Adds an ItemRequirement(s) call to `into` in formatItemRequirement's format, skipping duplicates. */
+function applyItemRequirement(call: ConstructorCall, into: string[]): void {
+  if (call.constructorName !== "ItemRequirement" && call.constructorName !== "ItemRequirements") return;
+  const item = formatItemRequirement(call);
+  if (item && !into.includes(item)) into.push(item);
+}
+
+function parseRequirementsAndRewards(source: string, knownNames: Map<string, string>): ParsedRequirements {
+  const declarations = parseConstructorDeclarations(source);
+  const result: ParsedRequirements = {
+    questPoints: 0,
+    experienceRewards: [],
+    lampRewards: null,
+    skillRequirements: [],
+    questRequirements: [],
+    questPointRequirement: null,
+    itemRequirements: [],
+  };
+
+  for (const call of methodEntries(source, "getGeneralRequirements", declarations)) {
+    applyGeneralRequirement(call, knownNames, result);
+  }
+
+  for (const call of methodEntries(source, "getItemRequirements", declarations)) {
+    applyItemRequirement(call, result.itemRequirements);
+  }
+
+  const questPointBody = extractMethodBody(source, /\sgetQuestPointReward\s*\(\s*\)\s*\{/);
+  const questPointMatch = questPointBody?.match(/new\s+QuestPointReward\s*\(\s*(\d+)\s*\)/);
+  if (questPointMatch) result.questPoints = parseInt(questPointMatch[1], 10);
+
+  for (const call of methodEntries(source, "getExperienceRewards", declarations)) {
+    if (call.constructorName !== "ExperienceReward") continue;
+    const skill = parseSkillArg(call.args[0]);
+    const xp = parseIntArg(call.args[1]);
+    if (skill && xp !== undefined) result.experienceRewards.push({ skill, xp });
+  }
+
+  for (const call of methodEntries(source, "getItemRewards", declarations)) {
+    if (call.constructorName !== "ItemReward" || result.lampRewards) continue;
+    result.lampRewards = parseLampReward(call);
+  }
+
+  return result;
+}
+
+// ─── Step item requirements ───────────────────────────────────────────────────
+//
+// Requirement variables are usually built in setupRequirements() or
+// setupItemRequirements() as `new ItemRequirement("Rope", ItemID.ROPE, 1, true)`
+// (name, item, quantity, equipped) and then derived with chained calls such as
+// `rope.quantity(2)` or `rope.equipped()`. `new ItemRequirements("Ores", ...)`
+// groups alternatives under one name and has no single item ID.
+
+interface ParsedItemRequirement {
+  name: string;
+  quantity: number;
+  equipped: boolean;
+  /** Item argument as written, e.g. "ItemID.ROPE" or "954". */
+  constant?: string;
+}
+
+function itemRequirementFromCall(call: ConstructorCall): ParsedItemRequirement | undefined {
+  if (call.constructorName !== "ItemRequirement" && call.constructorName !== "ItemRequirements") return undefined;
+  const name = call.args.map(extractStringArg).find((arg) => arg.trim().length > 0)?.trim();
+  if (!name) return undefined;
+  if (call.constructorName === "ItemRequirements") return { name, quantity: 1, equipped: false };
+  const constant = (call.args[1] ?? "").trim();
+  return {
+    name,
+    quantity: parseIntArg(call.args[2]) ?? 1,
+    equipped: (call.args[3] ?? "").trim() === "true",
+    ...(/^(?:ItemID\.[A-Z0-9_]+|\d+)$/.test(constant) ? { constant } : {}),
+  };
+}
+
+/** Applies `.quantity(n)` and `.equipped()` calls from a chain; other calls don't change what is brought. */
+function applyItemChain(item: ParsedItemRequirement, chain: string): ParsedItemRequirement {
+  const result = { ...item };
+  const pattern = /\.\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(chain)) !== null) {
+    const openParen = match.index + match[0].length - 1;
+    const closeParen = findMatchingClose(chain, openParen, "(", ")");
+    if (closeParen === -1) break;
+    const arg = chain.slice(openParen + 1, closeParen);
+    if (match[1] === "quantity") result.quantity = parseIntArg(arg) ?? result.quantity;
+    if (match[1] === "equipped") result.equipped = true;
+    pattern.lastIndex = closeParen + 1;
+  }
+  return result;
+}
+
+/** Resolves `rope`, `rope.quantity(2).equipped()` or an inline `new ItemRequirement(...)`. */
+function resolveItemExpression(
+  expression: string,
+  declarations: Map<string, ParsedItemRequirement>
+): ParsedItemRequirement | undefined {
+  const trimmed = expression.trim();
+  const inline = trimmed.match(/^new\s+(ItemRequirements?)\s*\(/);
+  if (inline) {
+    const openParen = trimmed.indexOf("(");
+    const closeParen = findMatchingClose(trimmed, openParen, "(", ")");
+    if (closeParen === -1) return undefined;
+    const item = itemRequirementFromCall({
+      constructorName: inline[1],
+      args: splitTopLevelArgs(trimmed.slice(openParen + 1, closeParen)),
+    });
+    return item && applyItemChain(item, trimmed.slice(closeParen + 1));
+  }
+  const base = trimmed.match(/^[a-zA-Z_][a-zA-Z0-9_]*/)?.[0];
+  const item = base ? declarations.get(base) : undefined;
+  return item && applyItemChain(item, trimmed.slice(base!.length));
+}
+
+/**
+ * Every ItemRequirement variable in the file: constructor assignments first,
+ * then derived assignments (`ropeEquipped = rope.equipped();`) in source
+ * order, then `rope.setEquip(true)` calls.
+ */
+function parseItemRequirementDeclarations(source: string): Map<string, ParsedItemRequirement> {
+  const declarations = new Map<string, ParsedItemRequirement>();
+  for (const [name, call] of parseConstructorDeclarations(source)) {
+    const item = itemRequirementFromCall(call);
+    if (item) declarations.set(name, item);
+  }
+
+  const cleaned = stripCommentsAndStrings(source);
+  const derivedPattern = /\b([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*([a-zA-Z_][a-zA-Z0-9_]*\s*\.)/g;
+  let match: RegExpExecArray | null;
+  while ((match = derivedPattern.exec(cleaned)) !== null) {
+    const start = match.index + match[0].length - match[2].length;
+    const end = cleaned.indexOf(";", start);
+    if (end === -1) continue;
+    const item = resolveItemExpression(source.slice(start, end), declarations);
+    if (item) declarations.set(match[1], item);
+  }
+
+  const equipPattern = /\b([a-zA-Z_][a-zA-Z0-9_]*)\s*\.\s*setEquip\s*\(\s*true\s*\)/g;
+  while ((match = equipPattern.exec(cleaned)) !== null) {
+    const item = declarations.get(match[1]);
+    if (item) declarations.set(match[1], { ...item, equipped: true });
+  }
+  return declarations;
+}
+
+/** Turns a step's candidate `itemArgs` into `items`; arguments that aren't item requirements are ignored. */
+function resolveStepItems(step: ParsedStep, declarations: Map<string, ParsedItemRequirement>): void {
+  const items = (step.itemArgs ?? [])
+    .map((arg) => resolveItemExpression(arg, declarations))
+    .filter((item): item is ParsedItemRequirement => item !== undefined);
+  if (items.length > 0) step.items = items;
+}
+
+/** Adds item IDs from items-summary.json, by literal ID, ItemID constant or display name. */
+function resolveItemRequirement(item: ParsedItemRequirement, table: EntityTable): StepItemRequirement {
+  const ids = (() => {
+    if (!item.constant) return table.ids[item.name] ?? [];
+    if (/^\d+$/.test(item.constant)) return [parseInt(item.constant, 10)];
+    const name = table.byName.get(item.constant.slice("ItemID.".length)) ?? table.byName.get(normalizeEntityName(item.name));
+    return name ? table.ids[name] : [];
+  })();
+  return {
+    name: item.name,
+    quantity: item.quantity,
+    ...(item.equipped ? { equipped: true } : {}),
+    ...(item.constant ? { constant: item.constant } : {}),
+    ids,
+  };
+}
+
+// ─── Entity references ────────────────────────────────────────────────────────
+//
+// NpcStep and ObjectStep take the entity as arg[1], usually a RuneLite constant
+// (NpcID.LAUNA, ObjectID.LADDER_16683) and occasionally a literal ID. Constants
+// are matched by name against the wiki tables written by `npm run build:data`;
+// RuneLite suffixes duplicate names with _N or the ID, so that suffix is dropped
+// when the full constant has no match.
+
+interface ParsedEntity {
+  type: "npc" | "object";
+  /** The argument as written, e.g. "NpcID.LAUNA" or "2735". */
+  constant: string;
+}
+
+type NameToIds = Record<string, number[]>;
+
+interface EntityTable {
+  /** normalizeEntityName(display name) → display name. */
+  byName: Map<string, string>;
+  /** Numeric ID → display name. */
+  byId: Map<number, string>;
+  ids: NameToIds;
+}
+
+type EntityTables = Record<ParsedEntity["type"] | "item", EntityTable>;
+
+function parseEntityArg(type: ParsedEntity["type"], raw: string | undefined): ParsedEntity | undefined {
+  const token = (raw ?? "").trim().replace(/^(?:net\.runelite\.api\.)?(?:gameval\.)?/, "");
+  if (/^(?:NpcID|ObjectID|NullObjectID)\.[A-Z0-9_]+$/.test(token) || /^\d+$/.test(token)) {
+    return { type, constant: token };
+  }
+  return undefined;
+}
+
+/** Upper-cased words joined by underscores, matching RuneLite constant names. */
+function normalizeEntityName(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+}
+
+function loadEntityTable(file: string): EntityTable | null {
+  const table: EntityTable = { byName: new Map(), byId: new Map(), ids: {} };
+  if (!fs.existsSync(file)) return null;
+  table.ids = JSON.parse(fs.readFileSync(file, "utf-8")) as NameToIds;
+  for (const [name, ids] of Object.entries(table.ids)) {
+    if (!table.byName.has(normalizeEntityName(name))) table.byName.set(normalizeEntityName(name), name);
+    for (const id of ids) if (!table.byId.has(id)) table.byId.set(id, name);
+  }
+  return table;
+}
+
+/**
+ * Loads the three summary tables. A missing file is replaced by an empty
+ * table, so its entities keep names derived from their constants and no IDs;
+ * its name is returned in `missing` for the diagnostics report.
+ */
+function loadEntityTables(dataDir: string): { tables: EntityTables; missing: string[] } {
+  const missing: string[] = [];
+  const load = (file: string): EntityTable => {
+    const table = loadEntityTable(path.join(dataDir, file));
+    if (table) return table;
+    missing.push(file);
+    console.warn(`Warning: ${file} not found in ${dataDir}; its entities are written without IDs. Run npm run build:data to create it.`);
+    return { byName: new Map(), byId: new Map(), ids: {} };
+  };
+  return {
+    tables: { npc: load(NPCS_SUMMARY_FILE), object: load(OBJECTS_SUMMARY_FILE), item: load(ITEMS_SUMMARY_FILE) },
+    missing,
+  };
+}
+
+/**
+ * Resolves a parsed constant to a display name and IDs. Unmatched constants
+ * keep a name derived from the constant and an empty ID list.
+ */
+function resolveEntity(entity: ParsedEntity, tables: EntityTables): EntityRef {
+  const table = tables[entity.type];
+  if (/^\d+$/.test(entity.constant)) {
+    const id = parseInt(entity.constant, 10);
+    return { type: entity.type, name: table.byId.get(id) ?? entity.constant, ids: [id], constant: entity.constant };
+  }
+
+  const key = entity.constant.slice(entity.constant.indexOf(".") + 1);
+  const exact = table.byName.get(key);
+  if (exact) return { type: entity.type, name: exact, ids: table.ids[exact], constant: entity.constant };
+  const name = table.byName.get(key.replace(/_\d+$/, ""));
+  if (name) {
+    // Object constants are often suffixed with their own ID (LADDER_16683); keep just that one when it matches.
+    const suffix = parseInt(key.match(/_(\d+)$/)?.[1] ?? "", 10);
+    const ids = table.ids[name].includes(suffix) ? [suffix] : table.ids[name];
+    return { type: entity.type, name, ids, constant: entity.constant };
+  }
+
+  const fallback = key
+    .replace(/_\d+$/, "")
+    .split("_")
+    .filter(Boolean)
+    .map((word) => word.charAt(0) + word.slice(1).toLowerCase())
+    .join(" ");
+  return { type: entity.type, name: fallback || key, ids: [], constant: entity.constant };
+}
+
 // ─── Full pipeline ────────────────────────────────────────────────────────────
 
 /** Internal panel during parsing; maps to QuestPanel for output. */
@@ -769,18 +1448,34 @@ function parsePanels(source: string): { panelTitle: string; stepVars: string[] }
 interface ParsedStep {
   description: string;
   worldpoint?: WorldPoint;
+  entity?: ParsedEntity;
+  alternatives?: ParsedAlternative[];
+  /** Set when the description came from the generic fallback rather than a known constructor mapping. */
+  unknownConstructor?: string;
+  /** Constructor arguments that may be item requirements; resolved into `items`. */
+  itemArgs?: string[];
+  items?: ParsedItemRequirement[];
+}
+/** A ConditionalStep branch; condition is null for the default delegate. */
+interface ParsedAlternative extends ParsedStep {
+  condition: string | null;
 }
 interface ParsedPanel {
   panelTitle: string;
-  steps: (ParsedStep & { varName: string })[];
+  /** PanelDetails arguments after the step list: the panel's requirements. */
+  requirementArgs: string[];
+  /** `unresolved` marks panel entries naming a variable no step constructor assigns. */
+  steps: (ParsedStep & { varName: string; unresolved?: boolean })[];
 }
 
 function buildPanels(source: string): ParsedPanel[] {
   const stepMap = parseAllSteps(source);
   const panelDefs = parsePanels(source);
+  const itemDeclarations = parseItemRequirementDeclarations(source);
 
-  return panelDefs.map(({ panelTitle, stepVars }) => ({
+  return panelDefs.map(({ panelTitle, stepVars, requirementArgs }) => ({
     panelTitle,
+    requirementArgs,
     steps: stepVars.map((varName) => {
       const cleanedVar = stripCommentsAndStrings(varName).trim();
       const inlineMatch = cleanedVar.match(/^new\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/);
@@ -790,78 +1485,436 @@ function buildPanels(source: string): ParsedPanel[] {
         const closeParen = findMatchingClose(varName, openParen, "(", ")");
         if (openParen !== -1 && closeParen !== -1) {
           const argsRaw = varName.slice(openParen + 1, closeParen);
-          return {
-            varName,
-            ...parseStepConstructor(constructorName, argsRaw, new Map<string, WorldPoint>()),
-          };
+          const step = parseStepConstructor(constructorName, argsRaw, new Map<string, WorldPoint>());
+          resolveStepItems(step, itemDeclarations);
+          return { varName, ...step };
         }
       }
       const step = stepMap.get(varName);
-      if (!step) return { varName, description: "STEP NOT FOUND IN setupSteps" };
+      if (!step) return { varName, description: "STEP NOT FOUND IN setupSteps", unresolved: true };
       return { varName, ...step };
     }),
   }));
 }
 
-/**
- * Convert parsed panels to QuestData. Steps are populated from parsed data;
- * other fields are optional with empty defaults.
- */
-function toQuestData(questName: string, panels: ParsedPanel[]): QuestData {
+function toRawStep(step: ParsedStep, entityTables: EntityTables): RawStep {
+  return {
+    description: step.description,
+    ...(step.worldpoint !== undefined ? { worldpoint: step.worldpoint } : {}),
+    ...(step.entity !== undefined ? { entity: resolveEntity(step.entity, entityTables) } : {}),
+    ...(step.items !== undefined
+      ? { items: step.items.map((item) => resolveItemRequirement(item, entityTables.item)) }
+      : {}),
+    ...(step.alternatives !== undefined
+      ? {
+          alternatives: step.alternatives.map((alternative): StepAlternative => ({
+            condition: alternative.condition,
+            ...toRawStep(alternative, entityTables),
+          })),
+        }
+      : {}),
+  };
+}
+
+/** A panel entry as a RawStep, recording the Java variable it came from unless it was an inline constructor. */
+function toPanelRawStep(step: ParsedPanel["steps"][number], entityTables: EntityTables): RawStep {
+  return {
+    ...toRawStep(step, entityTables),
+    ...(/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(step.varName) ? { sourceVar: step.varName } : {}),
+  };
+}
+
+/** Convert parsed panels, requirements and rewards to QuestData. */
+function toQuestData(
+  questName: string,
+  panels: ParsedPanel[],
+  requirements: ParsedRequirements,
+  entityTables: EntityTables
+): QuestData {
   const steps: QuestPanel[] = panels.map((panel) => ({
     panelName: panel.panelTitle,
-    steps: panel.steps.map((s): RawStep => ({
-      description: s.description,
-      ...(s.worldpoint !== undefined ? { worldpoint: s.worldpoint } : {}),
-    })),
+    steps: panel.steps.map((s) => toPanelRawStep(s, entityTables)),
   }));
 
   return {
+    dataVersion: QUEST_DATA_VERSION,
     name: questName,
-    questPoints: 0,
-    experienceRewards: [],
-    lampRewards: null,
+    ...requirements,
+    steps,
+    activeStep: 0,
+  };
+}
+
+// ─── Diagnostics ──────────────────────────────────────────────────────────────
+//
+// Line numbers are found by searching the full source for the declaration
+// (or, for unresolved variables and empty panels, the reference in
+// getPanels()), since step parsing works on method bodies cut out of it.
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function lineAt(source: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index; i++) if (source[i] === "\n") line++;
+  return line;
+}
+
+/** 1-based line of the first match at or after `from`, or null. */
+function findLine(source: string, pattern: RegExp, from = 0): number | null {
+  const match = pattern.exec(source.slice(from));
+  return match ? lineAt(source, from + match.index) : null;
+}
+
+/** Line where a panel step is built: `var = new X(`, or the inline expression itself. */
+function stepLine(source: string, varName: string): number | null {
+  if (/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(varName)) {
+    return findLine(source, new RegExp(`\\b${varName}\\s*=\\s*new\\s`));
+  }
+  const index = source.indexOf(varName);
+  return index === -1 ? null : lineAt(source, index);
+}
+
+function collectDiagnostics(source: string, panels: ParsedPanel[]): ParserDiagnostic[] {
+  const panelsStart = Math.max(0, source.search(/\bgetPanels\s*\(\s*\)/));
+  const diagnostics: ParserDiagnostic[] = [];
+
+  for (const panel of panels) {
+    if (panel.steps.length === 0) {
+      diagnostics.push({
+        kind: "empty-panel",
+        message: `Panel "${panel.panelTitle}" has no steps.`,
+        line: findLine(source, new RegExp(escapeRegExp(JSON.stringify(panel.panelTitle))), panelsStart),
+        panel: panel.panelTitle,
+      });
+    }
+
+    for (const step of panel.steps) {
+      const shortName = step.varName.replace(/\s+/g, " ").slice(0, 80);
+      if (step.unresolved) {
+        diagnostics.push({
+          kind: "unresolved-variable",
+          message: `"${shortName}" is listed in getPanels() but never assigned a step.`,
+          line: findLine(source, new RegExp(`\\b${escapeRegExp(step.varName)}\\b`), panelsStart),
+          panel: panel.panelTitle,
+          step: shortName,
+        });
+        continue;
+      }
+      const line = stepLine(source, step.varName);
+      if (step.unknownConstructor) {
+        diagnostics.push({
+          kind: "unknown-constructor",
+          message: `"${shortName}" uses ${step.unknownConstructor}, which has no mapping; description is "${step.description}".`,
+          line,
+          panel: panel.panelTitle,
+          step: shortName,
+        });
+      }
+      if (!step.worldpoint) {
+        diagnostics.push({
+          kind: "missing-worldpoint",
+          message: `"${shortName}" has no worldpoint: ${step.description}`,
+          line,
+          panel: panel.panelTitle,
+          step: shortName,
+        });
+      }
+    }
+  }
+
+  return diagnostics;
+}
+
+// ─── Check mode ───────────────────────────────────────────────────────────────
+//
+// Steps have no IDs in the quest files, so they are matched by panel name,
+// description and occurrence. A matched step whose worldpoint or entity moved
+// is "changed"; unmatched ones are "added" (only in the new parse) or
+// "removed" (only in the committed file).
+
+interface QuestDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+  /** Top-level QuestData fields other than steps whose values differ. */
+  fields: string[];
+}
+
+function stepKeys(quest: QuestData): Map<string, { label: string; json: string }> {
+  const keys = new Map<string, { label: string; json: string }>();
+  const seen = new Map<string, number>();
+  for (const panel of quest.steps) {
+    for (const step of panel.steps) {
+      const base = `${panel.panelName}\u0000${step.description}`;
+      const occurrence = seen.get(base) ?? 0;
+      seen.set(base, occurrence + 1);
+      keys.set(`${base}\u0000${occurrence}`, {
+        label: `[${panel.panelName}] ${step.description}`,
+        json: JSON.stringify(step),
+      });
+    }
+  }
+  return keys;
+}
+
+function diffQuestData(committed: QuestData, parsed: QuestData): QuestDiff {
+  const before = stepKeys(committed);
+  const after = stepKeys(parsed);
+  const diff: QuestDiff = { added: [], removed: [], changed: [], fields: [] };
+  for (const [key, step] of after) {
+    const old = before.get(key);
+    if (!old) diff.added.push(step.label);
+    else if (old.json !== step.json) diff.changed.push(step.label);
+  }
+  for (const [key, step] of before) {
+    if (!after.has(key)) diff.removed.push(step.label);
+  }
+  const fieldNames = new Set([...Object.keys(committed), ...Object.keys(parsed)]);
+  for (const field of [...fieldNames].filter((name) => name !== "steps").sort()) {
+    const a = JSON.stringify(committed[field as keyof QuestData]);
+    const b = JSON.stringify(parsed[field as keyof QuestData]);
+    if (a !== b) diff.fields.push(field);
+  }
+  return diff;
+}
+
+function isEmptyDiff(diff: QuestDiff): boolean {
+  return diff.added.length + diff.removed.length + diff.changed.length + diff.fields.length === 0;
+}
+
+function printQuestDiff(questName: string, diff: QuestDiff): void {
+  console.log(
+    `${questName}: ${diff.changed.length} changed, ${diff.added.length} added, ${diff.removed.length} removed`
+  );
+  for (const label of diff.changed) console.log(`  ~ ${label}`);
+  for (const label of diff.added) console.log(`  + ${label}`);
+  for (const label of diff.removed) console.log(`  - ${label}`);
+  if (diff.fields.length > 0) console.log(`  fields: ${diff.fields.join(", ")}`);
+}
+
+// ─── Achievement diaries ──────────────────────────────────────────────────────
+//
+// Diary helpers use the same setupSteps()/getPanels() constructs as quests.
+// Each panel is one task: the requirements passed to its PanelDetails become
+// the task's, and getGeneralRequirements()/getItemRequirements() the tier's.
+
+function diaryOutputFilename(diaryName: string): string {
+  return `${questNameToCamelCase(diaryName.replace(/&/g, "and"))}.json`;
+}
+
+function toDiaryTask(
+  panel: ParsedPanel,
+  declarations: Map<string, ConstructorCall>,
+  knownNames: Map<string, string>,
+  entityTables: EntityTables
+): DiaryTask {
+  const requirements: Pick<ParsedRequirements, "skillRequirements" | "questRequirements" | "questPointRequirement"> = {
     skillRequirements: [],
     questRequirements: [],
     questPointRequirement: null,
-    itemRequirements: [],
+  };
+  const itemRequirements: string[] = [];
+  for (const arg of panel.requirementArgs) {
+    const call = resolveConstructorCall(arg, declarations);
+    if (!call) continue;
+    applyGeneralRequirement(call, knownNames, requirements);
+    applyItemRequirement(call, itemRequirements);
+  }
+
+  const steps = panel.steps.map((step) => toPanelRawStep(step, entityTables));
+  const worldpoint = steps.find((step) => step.worldpoint)?.worldpoint;
+  return {
+    name: panel.panelTitle,
+    ...(worldpoint !== undefined ? { worldpoint } : {}),
+    skillRequirements: requirements.skillRequirements,
+    questRequirements: requirements.questRequirements,
+    itemRequirements,
     steps,
-    activeStep: 0,
   };
 }
 
+function toDiaryData(
+  diaryName: string,
+  area: string,
+  tier: DiaryTier,
+  source: string,
+  panels: ParsedPanel[],
+  knownNames: Map<string, string>,
+  entityTables: EntityTables
+): DiaryData {
+  const declarations = parseConstructorDeclarations(source);
+  const { skillRequirements, questRequirements, itemRequirements } = parseRequirementsAndRewards(source, knownNames);
+  return {
+    name: diaryName,
+    area,
+    tier,
+    skillRequirements,
+    questRequirements,
+    itemRequirements,
+    tasks: panels.map((panel) => toDiaryTask(panel, declarations, knownNames, entityTables)),
+  };
+}
+
+/** Rewrites index.json from every diary file in the output directory, by area then tier. */
+function writeDiaryIndex(): void {
+  const diaries: DiaryIndexEntry[] = fs
+    .readdirSync(DIARIES_OUTPUT_DIR)
+    .filter((file) => file.endsWith(".json") && file !== path.basename(DIARY_INDEX_PATH) && file !== DIAGNOSTICS_FILE)
+    .map((file) => {
+      const diary = JSON.parse(fs.readFileSync(path.join(DIARIES_OUTPUT_DIR, file), "utf-8")) as DiaryData;
+      return { name: diary.name, file, area: diary.area, tier: diary.tier, tasks: diary.tasks.length };
+    })
+    .sort((a, b) => a.area.localeCompare(b.area) || DIARY_TIERS.indexOf(a.tier) - DIARY_TIERS.indexOf(b.tier));
+  const index: DiaryIndex = { diaries };
+  fs.writeFileSync(DIARY_INDEX_PATH, JSON.stringify(index, null, 2), "utf-8");
+  console.log(`Wrote ${diaries.length} diaries to ${DIARY_INDEX_PATH}`);
+}
+
+async function parseDiaries(options: ParserOptions): Promise<void> {
+  const approvedDiaries = loadApprovedDiaries();
+  if (approvedDiaries.length === 0) {
+    console.error("No approved diaries found in approved-diaries.json");
+    process.exit(1);
+  }
+
+  const { tables: entityTables, missing: missingEntityTables } = loadEntityTables(options.dataDir);
+  fs.mkdirSync(DIARIES_OUTPUT_DIR, { recursive: true });
+  const knownNames = loadKnownQuestNames(options.approvedQuestsPath);
+  const report: QuestDiagnostics[] = [];
+
+  for (const diaryName of approvedDiaries) {
+    const parsedName = parseDiaryName(diaryName);
+    const helperPath = parsedName && diaryNameToPath(parsedName.area, parsedName.tier);
+    const source = helperPath ? `${helperPath}.java` : "";
+    try {
+      if (!parsedName || !helperPath) {
+        throw new Error(`Unknown diary "${diaryName}"; expected "<area> <tier>" with an area from DIARY_AREA_PATHS.`);
+      }
+      const javaSource = await loadHelperSource(DIARIES_SOURCE_PATH, helperPath, options);
+      const panels = buildPanels(javaSource);
+
+      if (panels.length === 0) {
+        console.log(`${diaryName}: no panels found.`);
+        report.push({ quest: diaryName, source, diagnostics: [], error: "No panels found in getPanels()." });
+        continue;
+      }
+
+      const diagnostics = collectDiagnostics(javaSource, panels);
+      report.push({ quest: diaryName, source, diagnostics });
+      const diary = toDiaryData(diaryName, parsedName.area, parsedName.tier, javaSource, panels, knownNames, entityTables);
+      const outputPath = path.join(DIARIES_OUTPUT_DIR, diaryOutputFilename(diaryName));
+      fs.writeFileSync(outputPath, JSON.stringify(diary, null, 2), "utf-8");
+      console.log(`Wrote: ${outputPath}${diagnostics.length > 0 ? ` (${diagnostics.length} diagnostics)` : ""}`);
+    } catch (err) {
+      report.push({ quest: diaryName, source, diagnostics: [], error: err instanceof Error ? err.message : String(err) });
+      console.error(`Failed to process ${diaryName}:`, err);
+    }
+  }
+
+  writeDiaryIndex();
+  const diagnosticsReport: ParserDiagnosticsReport = {
+    generatedAt: new Date().toISOString(),
+    ...(missingEntityTables.length > 0 ? { missingEntityTables } : {}),
+    quests: report,
+  };
+  const diagnosticsPath = path.join(DIARIES_OUTPUT_DIR, DIAGNOSTICS_FILE);
+  fs.writeFileSync(diagnosticsPath, JSON.stringify(diagnosticsReport, null, 2), "utf-8");
+  console.log(`Wrote: ${diagnosticsPath}`);
+}
+
 // ─── Main ─────────────────────────────────────────────────────────────────────
 
 async function main() {
-  const approvedQuests = loadApprovedQuests();
+  const options = parseOptions(process.argv.slice(2));
+  if (options.diaries) {
+    await parseDiaries(options);
+    return;
+  }
+
+  const approvedQuests = loadApprovedQuests(options.approvedQuestsPath);
+  const questsDir = path.join(options.dataDir, "quests");
 
   if (approvedQuests.length === 0) {
     console.error("No approved quests found in approved-quests.json");
     process.exit(1);
   }
 
-  fs.mkdirSync(QUESTS_OUTPUT_DIR, { recursive: true });
+  const { tables: entityTables, missing: missingEntityTables } = loadEntityTables(options.dataDir);
+  if (!options.check) fs.mkdirSync(questsDir, { recursive: true });
+  const knownNames = loadKnownQuestNames(options.approvedQuestsPath);
+  const parsedFiles = new Set<string>();
+  const report: QuestDiagnostics[] = [];
+  let differing = 0;
+  let failed = 0;
 
   for (const questName of approvedQuests) {
     const questPath = questNameToPath(questName);
+    const filename = questOutputFilename(questName, questsDir);
+    const outputPath = path.join(questsDir, filename);
+    const source = `${questPath}.java`;
     try {
-      const source = await fetchQuestFile(questPath);
-      const panels = buildPanels(source);
+      const javaSource = await loadHelperSource(QUESTS_SOURCE_PATH, questPath, options);
+      const panels = buildPanels(javaSource);
 
       if (panels.length === 0) {
         console.log("No panels found.");
+        report.push({ quest: questName, source, diagnostics: [], error: "No panels found in getPanels()." });
+        continue;
+      }
+
+      const diagnostics = collectDiagnostics(javaSource, panels);
+      report.push({ quest: questName, source, diagnostics });
+      const questData = toQuestData(questName, panels, parseRequirementsAndRewards(javaSource, knownNames), entityTables);
+      parsedFiles.add(filename);
+
+      if (!options.check) {
+        fs.writeFileSync(outputPath, JSON.stringify(questData, null, 2), "utf-8");
+        console.log(`Wrote: ${outputPath}${diagnostics.length > 0 ? ` (${diagnostics.length} diagnostics)` : ""}`);
         continue;
       }
 
-      const questData = toQuestData(questName, panels);
-      const filename = `${questNameToCamelCase(questName)}.json`;
-      const outputPath = path.join(QUESTS_OUTPUT_DIR, filename);
-      fs.writeFileSync(outputPath, JSON.stringify(questData, null, 2), "utf-8");
-      console.log(`Wrote: ${outputPath}`);
+      if (!fs.existsSync(outputPath)) {
+        differing++;
+        console.log(`${questName}: new quest, ${questData.steps.reduce((n, panel) => n + panel.steps.length, 0)} steps added`);
+        continue;
+      }
+      const committed = JSON.parse(fs.readFileSync(outputPath, "utf-8")) as QuestData;
+      const diff = diffQuestData(committed, questData);
+      if (isEmptyDiff(diff)) continue;
+      differing++;
+      printQuestDiff(questName, diff);
     } catch (err) {
+      failed++;
+      report.push({ quest: questName, source, diagnostics: [], error: err instanceof Error ? err.message : String(err) });
       console.error(`Failed to process ${questName}:`, err);
     }
   }
+
+  if (!options.check) {
+    const diagnosticsReport: ParserDiagnosticsReport = {
+      generatedAt: new Date().toISOString(),
+      ...(missingEntityTables.length > 0 ? { missingEntityTables } : {}),
+      quests: report,
+    };
+    const diagnosticsPath = path.join(options.dataDir, DIAGNOSTICS_FILE);
+    fs.writeFileSync(diagnosticsPath, JSON.stringify(diagnosticsReport, null, 2), "utf-8");
+    console.log(`Wrote: ${diagnosticsPath}`);
+    return;
+  }
+
+  // Committed files no approved quest produced; skipped when some quests failed, since their files would show up here too.
+  if (failed === 0 && fs.existsSync(questsDir)) {
+    for (const file of fs.readdirSync(questsDir).filter((name) => name.endsWith(".json")).sort()) {
+      if (parsedFiles.has(file)) continue;
+      differing++;
+      console.log(`${file}: committed but not produced by the parser (removed)`);
+    }
+  }
+
+  console.log(`Checked ${approvedQuests.length} quests: ${differing} differ, ${failed} failed.`);
+  if (differing > 0 || failed > 0) process.exit(1);
 }
 
 main().catch((err) => {
@@ -1,5 +1,5 @@
 /**
- * Build-time script: fetches OSRS Wiki NPC_IDs and Item_IDs pages via MediaWiki API,
+ * Build-time script: fetches OSRS Wiki NPC_IDs, Item_IDs and Object_IDs pages via MediaWiki API,
  * parses the table on each page into name -> numeric IDs, and writes JSON to public/data/.
  * Run: npm run build:data or npx tsx scripts/parse-wiki-ids.ts
  */
@@ -125,6 +125,11 @@ async function main(): Promise<void> {
     const items = parseWikiTable(itemHtml);
     writeJson(outDir, "items-summary.json", items);
 
+    console.log("Fetching Object_IDs...");
+    const objectHtml = await fetchWikiPage("Object_IDs");
+    const objects = parseWikiTable(objectHtml);
+    writeJson(outDir, "objects-summary.json", objects);
+
     console.log("Done.");
   } catch (err) {
     console.error(err);
@@ -1,33 +1,40 @@
 import '../style/App.css'
 import { Box } from '@mantine/core';
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import OSRSMap from '../components/map/OSRSMap';
 import OverlayLayer from '../components/overlay/OverlayLayer';
-import { useQuestActions } from '../stores/questStore';
-import type { QuestData } from '../types/QuestData';
-
-const questModules = import.meta.glob<{ default: QuestData }>(
-  "../../public/data/quests/*.json",
-  { eager: false }
-);
+import { useQuestIndexActions } from '../stores/questIndexStore';
+import { useRouteLibraryStore } from '../stores/routeLibraryStore';
+import { useRoutePersistence } from '../hooks/useRoutePersistence';
+import { useHistoryShortcuts } from '../hooks/useHistoryShortcuts';
+import { useSharedRouteLink } from '../hooks/useSharedRouteLink';
+import RouteImportReportModal from '../components/overlay/RouteImportReportModal';
+import { referencedQuestIds } from '../util/routeSnapshot';
 
 function App() {
-  const { addQuest } = useQuestActions();
+  const { load: loadQuestIndex, loadQuests } = useQuestIndexActions();
+  const [questsLoaded, setQuestsLoaded] = useState(false);
 
+  // Quests load on demand; only those referenced by saved routes are needed before restoring them.
   useEffect(() => {
-    const load = async () => {    
-      for (const loadMod of Object.values(questModules)) {
-        const mod = await loadMod();
-        addQuest(mod.default as QuestData);
-      }
+    const load = async () => {
+      await loadQuestIndex();
+      const { routes } = useRouteLibraryStore.getState();
+      await loadQuests(Object.values(routes).flatMap((route) => referencedQuestIds(route.steps, route.progress)));
+      setQuestsLoaded(true);
     };
     load();
-  }, []);
+  }, [loadQuestIndex, loadQuests]);
+
+  useRoutePersistence(questsLoaded);
+  const { report: linkReport, dismiss: dismissLinkReport } = useSharedRouteLink(questsLoaded);
+  useHistoryShortcuts();
 
   return (
     <Box h="100%" w="100%">
       <OSRSMap />
       <OverlayLayer />
+      <RouteImportReportModal title="Shared route" report={linkReport} onClose={dismissLinkReport} />
     </Box>
   );
 }
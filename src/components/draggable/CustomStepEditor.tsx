@@ -0,0 +1,151 @@
+import { useEffect } from "react";
+import { Autocomplete, Button, Group, NumberInput, SegmentedControl, Stack, Text, Textarea, TextInput } from "@mantine/core";
+import { useForm } from "@mantine/form";
+import { useRouteActions, useRouteStore } from "../../stores/routeStore";
+import { useHistoryActions } from "../../stores/historyStore";
+import { useStepDraft, useStepEditorActions, type StepDraft } from "../../stores/stepEditorStore";
+import {
+  useItemTable,
+  useNpcTable,
+  useReferenceDataActions,
+  useReferenceDataError,
+  useReferenceDataStatus,
+} from "../../stores/referenceDataStore";
+import { createCustomStep } from "../../factories/StepFactory";
+import type { CustomStep, EntityRef } from "../../types/Steps";
+import DraggableBox from "./draggableBox";
+
+interface CustomStepFormValues {
+  description: string;
+  notes: string;
+  x: number;
+  y: number;
+  plane: number;
+  entityType: "none" | EntityRef["type"];
+  entityName: string;
+}
+
+function CustomStepForm({ draft }: { draft: StepDraft }) {
+  const { appendRoute, updateStep } = useRouteActions();
+  const { transact } = useHistoryActions();
+  const { close } = useStepEditorActions();
+  const { load } = useReferenceDataActions();
+  const status = useReferenceDataStatus();
+  const error = useReferenceDataError();
+  const npcs = useNpcTable();
+  const items = useItemTable();
+
+  const existing = useRouteStore((s) =>
+    draft.stepId ? s.route.find((step): step is CustomStep => step.id === draft.stepId && step.kind === "custom") : undefined
+  );
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const form = useForm<CustomStepFormValues>({
+    initialValues: {
+      description: existing?.description ?? "",
+      notes: existing?.notes ?? "",
+      x: draft.worldpoint.x,
+      y: draft.worldpoint.y,
+      plane: draft.worldpoint.plane,
+      entityType: existing?.entity?.type ?? "none",
+      entityName: existing?.entity?.name ?? "",
+    },
+    validate: {
+      description: (value) => (value.trim() ? null : "Description is required"),
+      plane: (value) => (value >= 0 && value <= 3 ? null : "Plane must be 0–3"),
+      entityName: (value, values) => {
+        if (values.entityType === "none" || !value.trim()) return null;
+        const table = values.entityType === "npc" ? npcs : items;
+        return status !== "ready" || table[value] ? null : `Unknown ${values.entityType}`;
+      },
+    },
+  });
+
+  const entityTable = form.values.entityType === "npc" ? npcs : items;
+
+  const handleSubmit = (values: CustomStepFormValues) => {
+    const name = values.entityName.trim();
+    const entity: EntityRef | undefined =
+      values.entityType !== "none" && name
+        ? { type: values.entityType, name, ids: entityTable[name] ?? existing?.entity?.ids ?? [] }
+        : undefined;
+    const data = {
+      description: values.description.trim(),
+      worldpoint: { x: values.x, y: values.y, plane: values.plane },
+      ...(values.notes.trim() ? { notes: values.notes.trim() } : {}),
+      ...(entity ? { entity } : {}),
+    };
+
+    if (existing) {
+      transact(`Edit step: ${data.description}`, () =>
+        updateStep({ id: existing.id, kind: "custom", xpGained: existing.xpGained, ...data })
+      );
+    } else {
+      transact(`Add custom step: ${data.description}`, () => appendRoute(createCustomStep(data)));
+    }
+    close();
+  };
+
+  return (
+    <form onSubmit={form.onSubmit(handleSubmit)}>
+      <Stack gap="xs" ta="left">
+        <TextInput size="xs" label="Description" placeholder="Bank at Draynor" withAsterisk {...form.getInputProps("description")} />
+        <Textarea size="xs" label="Notes" autosize minRows={2} maxRows={5} {...form.getInputProps("notes")} />
+        <Group gap="xs" grow>
+          <NumberInput size="xs" label="X" hideControls {...form.getInputProps("x")} />
+          <NumberInput size="xs" label="Y" hideControls {...form.getInputProps("y")} />
+          <NumberInput size="xs" label="Plane" min={0} max={3} {...form.getInputProps("plane")} />
+        </Group>
+        <Stack gap={4}>
+          <Text size="xs" fw={500}>Entity</Text>
+          <SegmentedControl
+            size="xs"
+            data={[
+              { value: "none", label: "None" },
+              { value: "npc", label: "NPC" },
+              { value: "item", label: "Item" },
+            ]}
+            {...form.getInputProps("entityType")}
+          />
+          {form.values.entityType !== "none" && (
+            <Autocomplete
+              size="xs"
+              placeholder={status === "loading" ? "Loading names…" : `Search ${form.values.entityType}s`}
+              data={Object.keys(entityTable)}
+              limit={20}
+              disabled={status === "error"}
+              comboboxProps={{ zIndex: 1001 }}
+              {...form.getInputProps("entityName")}
+            />
+          )}
+          {status === "error" && <Text size="xs" c="red">Could not load NPC/item names: {error}</Text>}
+        </Stack>
+        <Group gap="xs" justify="flex-end">
+          <Button size="xs" variant="subtle" onClick={close}>Cancel</Button>
+          <Button size="xs" type="submit">{existing ? "Save" : "Add to route"}</Button>
+        </Group>
+      </Stack>
+    </form>
+  );
+}
+
+export default function CustomStepEditor() {
+  const draft = useStepDraft();
+  const { close } = useStepEditorActions();
+
+  if (!draft) return null;
+
+  return (
+    <DraggableBox
+      title={draft.stepId ? "Edit custom step" : "New custom step"}
+      info={"Custom steps are your own waypoints, e.g. banking or buying supplies.\nRight-click the map to place one."}
+      initialPosition={{ x: window.innerWidth / 2 - 160, y: 80 }}
+      onClose={close}
+    >
+      <CustomStepForm key={`${draft.stepId ?? "new"}-${draft.worldpoint.x}-${draft.worldpoint.y}-${draft.worldpoint.plane}`} draft={draft} />
+    </DraggableBox>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useMemo, useState } from "react";
+import { Badge, Group, Loader, ScrollArea, SegmentedControl, Select, Stack, Text, UnstyledButton } from "@mantine/core";
+import {
+  useParserDiagnostics,
+  useParserDiagnosticsActions,
+  useParserDiagnosticsStatus,
+  type ParserDiagnosticsSource,
+} from "../../stores/parserDiagnosticsStore";
+import { useQuestIndexActions } from "../../stores/questIndexStore";
+import { useDiaryActions } from "../../stores/diaryStore";
+import type { ParserDiagnosticKind } from "../../types/ParserDiagnostics";
+import DraggableBox from "./draggableBox";
+
+const KIND_LABELS: Record<ParserDiagnosticKind, string> = {
+  "unresolved-variable": "Unresolved variable",
+  "unknown-constructor": "Unknown constructor",
+  "missing-worldpoint": "No worldpoint",
+  "empty-panel": "Empty panel",
+};
+
+const KIND_COLORS: Record<ParserDiagnosticKind, string> = {
+  "unresolved-variable": "red",
+  "unknown-constructor": "orange",
+  "missing-worldpoint": "yellow",
+  "empty-panel": "gray",
+};
+
+/** Parser diagnostics per quest or diary tier, worst first, so hand-fixes can be prioritised. */
+export default function DataQualityViewer() {
+  const [source, setSource] = useState<ParserDiagnosticsSource>("quests");
+  const report = useParserDiagnostics(source);
+  const hasDiaryReport = useParserDiagnostics("diaries") !== null;
+  const status = useParserDiagnosticsStatus();
+  const { load } = useParserDiagnosticsActions();
+  const { openQuest } = useQuestIndexActions();
+  const { openDiary } = useDiaryActions();
+  const [kind, setKind] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const quests = useMemo(
+    () =>
+      (report?.quests ?? [])
+        .map((quest) => ({ ...quest, diagnostics: quest.diagnostics.filter((d) => !kind || d.kind === kind) }))
+        .filter((quest) => quest.error || quest.diagnostics.length > 0)
+        .sort((a, b) => Number(!!b.error) - Number(!!a.error) || b.diagnostics.length - a.diagnostics.length || a.quest.localeCompare(b.quest)),
+    [report, kind]
+  );
+  const total = quests.reduce((n, quest) => n + quest.diagnostics.length, 0);
+  const noun = source === "quests" ? "quest" : "diary";
+  const plural = source === "quests" ? "quests" : "diaries";
+
+  return (
+    <DraggableBox
+      title="Data quality"
+      info={"Problems the Quest Helper parser reported on its last quest and diary runs, with the Java line they come from.\nQuests and diaries at the top need the most hand-fixing before they can be relied on.\nClick an entry to expand it; click its name to open it."}
+      initialPosition={{ x: 344, y: window.innerHeight - 320 }}
+      width={320}
+    >
+      <Stack gap="xs" ta="left">
+        {status === "loading" && <Loader size="xs" />}
+        {status === "error" && (
+          <Text size="xs" c="dimmed">No diagnostics report found. Run npm run build:quests or npm run build:diaries to generate one.</Text>
+        )}
+        {status === "ready" && hasDiaryReport && (
+          <SegmentedControl
+            size="xs"
+            fullWidth
+            value={source}
+            onChange={(value) => setSource(value as ParserDiagnosticsSource)}
+            data={[
+              { value: "quests", label: "Quests" },
+              { value: "diaries", label: "Diaries" },
+            ]}
+          />
+        )}
+        {status === "ready" && !report && (
+          <Text size="xs" c="dimmed">No {noun} report yet. Run npm run build:{plural} to generate one.</Text>
+        )}
+        {report && (
+          <>
+            <Select
+              size="xs"
+              placeholder="All problems"
+              data={Object.entries(KIND_LABELS).map(([value, label]) => ({ value, label }))}
+              value={kind}
+              onChange={setKind}
+              clearable
+              comboboxProps={{ zIndex: 1001 }}
+            />
+            {report.missingEntityTables && (
+              <Text size="xs" c="orange">
+                {report.missingEntityTables.join(", ")} missing on this run; NPCs, objects or items from them have no IDs. Run npm run build:data.
+              </Text>
+            )}
+            <Text size="xs" c="dimmed">
+              {total} problem{total === 1 ? "" : "s"} in {quests.length} {quests.length === 1 ? noun : plural} · parsed {new Date(report.generatedAt).toLocaleString()}
+            </Text>
+            <ScrollArea.Autosize mah={300} offsetScrollbars>
+              <Stack gap={4}>
+                {quests.map((quest) => (
+                  <Stack key={quest.quest} gap={2}>
+                    <UnstyledButton className="route-step" px={4} py={2} onClick={() => setExpanded(expanded === quest.quest ? null : quest.quest)}>
+                      <Group gap={6} wrap="nowrap">
+                        <Text
+                          size="xs"
+                          fw={500}
+                          style={{ flex: 1, cursor: "pointer" }}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            if (source === "quests") openQuest(quest.quest);
+                            else openDiary(quest.quest);
+                          }}
+                        >
+                          {quest.quest}
+                        </Text>
+                        {quest.error && <Badge size="xs" color="red">Failed</Badge>}
+                        <Badge size="xs" variant="light">{quest.diagnostics.length}</Badge>
+                      </Group>
+                    </UnstyledButton>
+                    {expanded === quest.quest && (
+                      <Stack gap={2} pl="xs">
+                        {quest.error && <Text size="xs" c="red">{quest.error}</Text>}
+                        {quest.diagnostics.map((diagnostic, index) => (
+                          <Group key={index} gap={6} wrap="nowrap" align="flex-start">
+                            <Badge size="xs" variant="light" color={KIND_COLORS[diagnostic.kind]} style={{ flexShrink: 0 }}>
+                              {KIND_LABELS[diagnostic.kind]}
+                            </Badge>
+                            <Text size="xs">
+                              <Text span size="xs" c="dimmed">
+                                {quest.source}
+                                {diagnostic.line !== null ? `:${diagnostic.line}` : ""} · {diagnostic.panel}
+                              </Text>
+                              <br />
+                              {diagnostic.message}
+                            </Text>
+                          </Group>
+                        ))}
+                      </Stack>
+                    )}
+                  </Stack>
+                ))}
+              </Stack>
+            </ScrollArea.Autosize>
+          </>
+        )}
+      </Stack>
+    </DraggableBox>
+  );
+}
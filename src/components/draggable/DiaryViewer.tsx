@@ -0,0 +1,97 @@
+import { useMemo } from "react";
+import { Button, Divider, Group, ScrollArea, Select, Stack, Text } from "@mantine/core";
+import { useDiaryViewer } from "../../hooks/useDiaryViewer";
+import { formatSkill } from "../../util/requirements";
+import type { DiaryTask } from "../../types/DiaryData";
+import DraggableBox from "./draggableBox";
+
+/** "Needs 15 Mining, Rune Mysteries", or null when the task has no requirements of its own. */
+function describeTaskRequirements(task: DiaryTask): string | null {
+  const parts = [
+    ...task.skillRequirements.map(({ skill, level }) => `${level} ${formatSkill(skill)}`),
+    ...task.questRequirements,
+  ];
+  return parts.length > 0 ? `Needs ${parts.join(", ")}` : null;
+}
+
+/**
+ * Achievement diary tasks, added to the route one at a time like quest steps.
+ * Hidden until the diary index lists at least one tier.
+ */
+export default function DiaryViewer() {
+  const { entries, diary, openDiary, isTaskInRoute, handleAddTask, handleAddAll, allTasksInRoute } = useDiaryViewer();
+
+  const options = useMemo(() => {
+    const groups = new Map<string, string[]>();
+    for (const entry of entries) groups.set(entry.area, [...(groups.get(entry.area) ?? []), entry.name]);
+    return [...groups].map(([group, items]) => ({ group, items }));
+  }, [entries]);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <DraggableBox
+      title="Diaries"
+      info={"Add achievement diary tasks to your Route.\nTasks can be added in any order; each one is pinned where its first Quest Helper step takes place.\nRequirements listed under a task are on top of the tier's own."}
+      initialPosition={{ x: 616, y: window.innerHeight - 320 }}
+      width={320}
+    >
+      <Stack gap="xs" ta="left">
+        <Select
+          size="xs"
+          placeholder="Pick a diary"
+          data={options}
+          value={diary?.name ?? null}
+          onChange={openDiary}
+          searchable
+          clearable
+          comboboxProps={{ zIndex: 1001 }}
+        />
+        {diary && (
+          <>
+            <Group gap="xs" wrap="nowrap">
+              <Text size="xs" c="dimmed" style={{ flex: 1 }}>
+                {[
+                  ...diary.skillRequirements.map(({ skill, level }) => `${level} ${formatSkill(skill)}`),
+                  ...diary.questRequirements,
+                ].join(", ") || "No tier requirements"}
+              </Text>
+              <Button size="xs" variant="light" disabled={allTasksInRoute} style={{ flexShrink: 0 }} onClick={handleAddAll}>
+                Add All
+              </Button>
+            </Group>
+            <Divider />
+            <ScrollArea.Autosize mah={300} offsetScrollbars>
+              <Stack gap={4}>
+                {diary.tasks.map((task, index) => (
+                  <Group key={task.name} wrap="nowrap" align="center" gap="xs" px={4} py={2}>
+                    <Text size="sm" w={20} ta="center" style={{ flexShrink: 0 }}>
+                      {index + 1}
+                    </Text>
+                    <Stack gap={0} style={{ flex: 1 }}>
+                      <Text size="sm">{task.name}</Text>
+                      {describeTaskRequirements(task) && <Text size="xs" c="dimmed">{describeTaskRequirements(task)}</Text>}
+                      {task.itemRequirements.length > 0 && (
+                        <Text size="xs" c="dimmed">bring: {task.itemRequirements.join(", ")}</Text>
+                      )}
+                      {!task.worldpoint && <Text size="xs" c="orange">No location in Quest Helper</Text>}
+                    </Stack>
+                    <Button
+                      size="xs"
+                      variant="light"
+                      disabled={isTaskInRoute(index)}
+                      style={{ flexShrink: 0 }}
+                      onClick={() => handleAddTask(index)}
+                    >
+                      Add
+                    </Button>
+                  </Group>
+                ))}
+              </Stack>
+            </ScrollArea.Autosize>
+          </>
+        )}
+      </Stack>
+    </DraggableBox>
+  );
+}
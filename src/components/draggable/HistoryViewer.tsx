@@ -0,0 +1,73 @@
+import { Button, Group, ScrollArea, Stack, Text } from "@mantine/core";
+import { IconArrowBackUp, IconArrowForwardUp } from "@tabler/icons-react";
+import { useCanRedo, useCanUndo, useHistoryActions, useHistoryEntries } from "../../stores/historyStore";
+import DraggableBox from "./draggableBox";
+
+export default function HistoryViewer() {
+  const { past, future } = useHistoryEntries();
+  const canUndo = useCanUndo();
+  const canRedo = useCanRedo();
+  const { undo, redo, jumpTo } = useHistoryActions();
+
+  return (
+    <DraggableBox
+      title="History"
+      info={"Undo: Ctrl+Z\nRedo: Ctrl+Shift+Z\nClick an entry to jump back or forward to it."}
+      initialPosition={{ x: 344, y: 100 }}
+      width={260}
+    >
+      <Stack gap="xs">
+        <Group gap="xs" grow>
+          <Button size="xs" variant="light" disabled={!canUndo} onClick={undo} leftSection={<IconArrowBackUp size={14} />}>
+            Undo
+          </Button>
+          <Button size="xs" variant="light" disabled={!canRedo} onClick={redo} leftSection={<IconArrowForwardUp size={14} />}>
+            Redo
+          </Button>
+        </Group>
+        <ScrollArea.Autosize mah={300} offsetScrollbars>
+          <Stack gap={2}>
+            <Text
+              size="xs"
+              className="route-step"
+              c={past.length === 0 ? undefined : "dimmed"}
+              fw={past.length === 0 ? 600 : undefined}
+              px={4}
+              style={{ cursor: "pointer" }}
+              onClick={() => jumpTo(null)}
+            >
+              Start
+            </Text>
+            {past.map((entry, index) => (
+              <Text
+                key={entry.id}
+                size="xs"
+                className="route-step"
+                fw={index === past.length - 1 ? 600 : undefined}
+                px={4}
+                style={{ cursor: "pointer" }}
+                onClick={() => jumpTo(entry.id)}
+              >
+                {entry.label}
+              </Text>
+            ))}
+            {future.map((entry) => (
+              <Text
+                key={entry.id}
+                size="xs"
+                className="route-step"
+                c="dimmed"
+                td="line-through"
+                px={4}
+                style={{ cursor: "pointer" }}
+                onClick={() => jumpTo(entry.id)}
+              >
+                {entry.label}
+              </Text>
+            ))}
+          </Stack>
+        </ScrollArea.Autosize>
+      </Stack>
+    </DraggableBox>
+  );
+}
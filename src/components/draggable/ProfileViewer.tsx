@@ -0,0 +1,92 @@
+import { useMemo, useState } from "react";
+import { Button, Divider, Group, NumberInput, ScrollArea, SimpleGrid, Stack, TagsInput, Text, Textarea } from "@mantine/core";
+import { useProfile, useProfileActions } from "../../stores/profileStore";
+import { useQuestIndex } from "../../stores/questIndexStore";
+import { Skill } from "../../types/QuestData";
+import { parseHiscoresCsv } from "../../util/hiscores";
+import { formatSkill } from "../../util/requirements";
+import DraggableBox from "./draggableBox";
+
+export default function ProfileViewer() {
+  const profile = useProfile();
+  const { setLevel, setLevels, setCompletedQuests, setQuestPoints, reset } = useProfileActions();
+  const questIndex = useQuestIndex();
+  const questNames = useMemo(() => questIndex.map((entry) => entry.name), [questIndex]);
+  const [csv, setCsv] = useState("");
+  const [importMessage, setImportMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const handleImport = () => {
+    const result = parseHiscoresCsv(csv);
+    if (!result.ok) {
+      setImportMessage({ ok: false, text: result.error });
+      return;
+    }
+    setLevels(result.levels);
+    setImportMessage({ ok: true, text: `Imported ${Object.keys(result.levels).length} skill levels.` });
+    setCsv("");
+  };
+
+  return (
+    <DraggableBox
+      title="Player"
+      info={"Your account before starting the route.\nQuests in the route are checked against these levels, completed quests and quest points, plus any quests the route finishes earlier.\nPaste the CSV from the hiscores API (index_lite.ws) to fill in levels."}
+      initialPosition={{ x: 616, y: 100 }}
+    >
+      <ScrollArea.Autosize mah={500} offsetScrollbars>
+        <Stack gap="xs" ta="left">
+          <Textarea
+            size="xs"
+            placeholder={"Paste hiscores CSV\n-1,1,0\n…"}
+            autosize
+            minRows={2}
+            maxRows={4}
+            value={csv}
+            onChange={(e) => setCsv(e.currentTarget.value)}
+          />
+          <Group gap="xs" justify="space-between">
+            <Button size="xs" variant="light" onClick={handleImport} disabled={!csv.trim()}>
+              Import levels
+            </Button>
+            <Button size="xs" variant="subtle" color="red" onClick={reset}>
+              Reset
+            </Button>
+          </Group>
+          {importMessage && (
+            <Text size="xs" c={importMessage.ok ? "teal" : "red"}>{importMessage.text}</Text>
+          )}
+          <Divider label="Levels" labelPosition="left" />
+          <SimpleGrid cols={3} spacing={6} verticalSpacing={4}>
+            {Object.values(Skill).map((skill) => (
+              <NumberInput
+                key={skill}
+                size="xs"
+                label={formatSkill(skill)}
+                min={1}
+                max={99}
+                value={profile.levels[skill]}
+                onChange={(value) => typeof value === "number" && setLevel(skill, value)}
+              />
+            ))}
+          </SimpleGrid>
+          <Divider label="Quests" labelPosition="left" />
+          <NumberInput
+            size="xs"
+            label="Quest points"
+            min={0}
+            value={profile.questPoints}
+            onChange={(value) => typeof value === "number" && setQuestPoints(value)}
+          />
+          <TagsInput
+            size="xs"
+            label="Completed quests"
+            placeholder="Add quest"
+            data={questNames}
+            value={profile.completedQuests}
+            onChange={setCompletedQuests}
+            comboboxProps={{ zIndex: 1001 }}
+          />
+        </Stack>
+      </ScrollArea.Autosize>
+    </DraggableBox>
+  );
+}
@@ -0,0 +1,120 @@
+import { useMemo } from "react";
+import { ScrollArea, Stack, Text } from "@mantine/core";
+import { useQuestGraph } from "../../hooks/useQuestGraph";
+import { useProfile } from "../../stores/profileStore";
+import { useQuestActions } from "../../stores/questStore";
+import { useRoute } from "../../stores/routeStore";
+import type { QuestNode } from "../../util/questGraph";
+import DraggableBox from "./draggableBox";
+
+const NODE_WIDTH = 150;
+const NODE_HEIGHT = 22;
+const COLUMN_GAP = 40;
+const ROW_GAP = 8;
+
+type NodeStatus = "completed" | "in-route" | "missing" | "available";
+
+const STATUS_COLORS: Record<NodeStatus, string> = {
+  completed: "var(--mantine-color-teal-6)",
+  "in-route": "var(--mantine-color-blue-6)",
+  missing: "var(--mantine-color-gray-6)",
+  available: "var(--mantine-color-default-border)",
+};
+
+/** Quests laid out in columns by prerequisite depth, with an edge from each prerequisite to its dependents. */
+export default function QuestGraphViewer() {
+  const graph = useQuestGraph();
+  const route = useRoute();
+  const { completedQuests } = useProfile();
+  const { selectQuest } = useQuestActions();
+
+  const layout = useMemo(() => {
+    // Only quests with prerequisites or dependents are drawn; the rest would be a long column of islands.
+    const linked = Object.values(graph).filter((node) => node.prerequisites.length > 0 || node.dependents.length > 0);
+    const columns: QuestNode[][] = [];
+    for (const node of linked.sort((a, b) => a.name.localeCompare(b.name))) {
+      (columns[node.depth] ??= []).push(node);
+    }
+    const positions = new Map<string, { x: number; y: number }>();
+    columns.forEach((column, depth) =>
+      column.forEach((node, row) =>
+        positions.set(node.name, { x: depth * (NODE_WIDTH + COLUMN_GAP), y: row * (NODE_HEIGHT + ROW_GAP) })
+      )
+    );
+    const width = Math.max(0, columns.length * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP);
+    const height = Math.max(0, ...columns.map((column) => column.length * (NODE_HEIGHT + ROW_GAP) - ROW_GAP));
+    return { nodes: linked, positions, width, height };
+  }, [graph]);
+
+  const completed = new Set(completedQuests.map((name) => name.toLowerCase()));
+  const inRoute = new Set(route.flatMap((step) => (step.kind === "quest" ? [step.questId] : [])));
+  const statusOf = (node: QuestNode): NodeStatus => {
+    if (completed.has(node.name.toLowerCase())) return "completed";
+    if (inRoute.has(node.name)) return "in-route";
+    return node.loaded ? "available" : "missing";
+  };
+
+  return (
+    <DraggableBox
+      title="Quest graph"
+      info={"Prerequisite quests from the loaded quest data, left to right.\nTeal: completed on the Player panel. Blue: in the route. Dashed: no quest data loaded.\nClick a quest to open it."}
+      initialPosition={{ x: 944, y: 420 }}
+      width={360}
+    >
+      {layout.nodes.length === 0 ? (
+        <Text size="xs" c="dimmed" ta="left">None of the loaded quests list quest requirements.</Text>
+      ) : (
+        <Stack gap="xs">
+          <ScrollArea h={Math.min(layout.height + 16, 360)} type="auto" offsetScrollbars>
+            <svg width={layout.width} height={layout.height} style={{ display: "block" }}>
+              {layout.nodes.flatMap((node) =>
+                node.prerequisites.map((name) => {
+                  const from = layout.positions.get(name);
+                  const to = layout.positions.get(node.name);
+                  if (!from || !to) return null;
+                  return (
+                    <line
+                      key={`${name}->${node.name}`}
+                      x1={from.x + NODE_WIDTH}
+                      y1={from.y + NODE_HEIGHT / 2}
+                      x2={to.x}
+                      y2={to.y + NODE_HEIGHT / 2}
+                      stroke="var(--mantine-color-dimmed)"
+                    />
+                  );
+                })
+              )}
+              {layout.nodes.map((node) => {
+                const { x, y } = layout.positions.get(node.name)!;
+                const status = statusOf(node);
+                return (
+                  <g
+                    key={node.name}
+                    transform={`translate(${x},${y})`}
+                    style={{ cursor: node.loaded ? "pointer" : "default" }}
+                    onClick={() => node.loaded && selectQuest(node.name)}
+                  >
+                    <title>{node.name}</title>
+                    <rect
+                      width={NODE_WIDTH}
+                      height={NODE_HEIGHT}
+                      rx={4}
+                      fill="var(--mantine-color-body)"
+                      stroke={STATUS_COLORS[status]}
+                      strokeWidth={status === "available" ? 1 : 2}
+                      strokeDasharray={status === "missing" ? "4 3" : undefined}
+                    />
+                    <text x={6} y={NODE_HEIGHT / 2} dominantBaseline="central" fontSize={11} fill="var(--mantine-color-text)">
+                      {node.name.length > 22 ? `${node.name.slice(0, 21)}…` : node.name}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          </ScrollArea>
+          <Text size="xs" c="dimmed" ta="left">{layout.nodes.length} quests with prerequisites or dependents</Text>
+        </Stack>
+      )}
+    </DraggableBox>
+  );
+}
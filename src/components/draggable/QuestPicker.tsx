@@ -0,0 +1,123 @@
+import { useMemo, useState } from "react";
+import { Badge, Group, Loader, ScrollArea, SegmentedControl, Select, Stack, Text, TextInput, UnstyledButton } from "@mantine/core";
+import { IconSearch } from "@tabler/icons-react";
+import { useLoadingQuests, useQuestIndex, useQuestIndexActions, useQuestIndexStatus } from "../../stores/questIndexStore";
+import { useProfile } from "../../stores/profileStore";
+import { useQuestStore, useSelectedQuestId } from "../../stores/questStore";
+import type { QuestDifficulty } from "../../types/QuestIndex";
+import DraggableBox from "./draggableBox";
+
+const DIFFICULTIES: QuestDifficulty[] = ["Novice", "Intermediate", "Experienced", "Master", "Grandmaster", "Special"];
+
+type MembershipFilter = "all" | "f2p" | "members";
+
+export default function QuestPicker() {
+  const entries = useQuestIndex();
+  const status = useQuestIndexStatus();
+  const loadingQuests = useLoadingQuests();
+  const selectedQuestId = useSelectedQuestId();
+  const { openQuest } = useQuestIndexActions();
+  const { completedQuests } = useProfile();
+  const loadedQuests = useQuestStore((s) => s.quests);
+  const [search, setSearch] = useState("");
+  const [membership, setMembership] = useState<MembershipFilter>("all");
+  const [difficulty, setDifficulty] = useState<string | null>(null);
+  const [series, setSeries] = useState<string | null>(null);
+
+  const seriesOptions = useMemo(
+    () => [...new Set(entries.flatMap((entry) => (entry.series ? [entry.series] : [])))].sort(),
+    [entries]
+  );
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return entries.filter(
+      (entry) =>
+        (!query || entry.name.toLowerCase().includes(query)) &&
+        (membership === "all" || entry.members === (membership === "members")) &&
+        (!difficulty || entry.difficulty === difficulty) &&
+        (!series || entry.series === series)
+    );
+  }, [entries, search, membership, difficulty, series]);
+
+  const completed = new Set(completedQuests.map((name) => name.toLowerCase()));
+
+  return (
+    <DraggableBox
+      title="Quests"
+      info={"Search and filter the available quests.\nClick a quest to load it and open it in the quest viewer."}
+      initialPosition={{ x: 344, y: 420 }}
+      width={260}
+    >
+      <Stack gap="xs" ta="left">
+        <TextInput
+          size="xs"
+          placeholder="Search quests"
+          leftSection={<IconSearch size={14} />}
+          value={search}
+          onChange={(e) => setSearch(e.currentTarget.value)}
+        />
+        <SegmentedControl
+          size="xs"
+          fullWidth
+          value={membership}
+          onChange={(value) => setMembership(value as MembershipFilter)}
+          data={[
+            { value: "all", label: "All" },
+            { value: "f2p", label: "F2P" },
+            { value: "members", label: "Members" },
+          ]}
+        />
+        <Group gap="xs" grow>
+          <Select
+            size="xs"
+            placeholder="Difficulty"
+            data={DIFFICULTIES}
+            value={difficulty}
+            onChange={setDifficulty}
+            clearable
+            comboboxProps={{ zIndex: 1001 }}
+          />
+          <Select
+            size="xs"
+            placeholder="Series"
+            data={seriesOptions}
+            value={series}
+            onChange={setSeries}
+            clearable
+            comboboxProps={{ zIndex: 1001 }}
+          />
+        </Group>
+        {status === "loading" && <Loader size="xs" />}
+        {status === "error" && <Text size="xs" c="red">Quest list failed to load.</Text>}
+        {status === "ready" && filtered.length === 0 && <Text size="xs" c="dimmed">No quests match.</Text>}
+        <ScrollArea.Autosize mah={300} offsetScrollbars>
+          <Stack gap={2}>
+            {filtered.map((entry) => (
+              <UnstyledButton
+                key={entry.name}
+                className="route-step"
+                data-active={entry.name === selectedQuestId || undefined}
+                px={4}
+                py={2}
+                onClick={() => openQuest(entry.name)}
+              >
+                <Group gap={6} wrap="nowrap">
+                  <Text size="xs" style={{ flex: 1 }} c={completed.has(entry.name.toLowerCase()) ? "dimmed" : undefined}>
+                    {entry.name}
+                  </Text>
+                  {loadingQuests.includes(entry.name) && <Loader size={12} />}
+                  {entry.name in loadedQuests && <Badge size="xs" variant="light">Loaded</Badge>}
+                  <Text size="xs" c="dimmed">{entry.questPoints} QP</Text>
+                </Group>
+                <Text size="xs" c="dimmed">
+                  {[entry.members ? "Members" : "F2P", entry.difficulty, entry.series].filter(Boolean).join(" · ")}
+                </Text>
+              </UnstyledButton>
+            ))}
+          </Stack>
+        </ScrollArea.Autosize>
+      </Stack>
+    </DraggableBox>
+  );
+}
@@ -1,12 +1,18 @@
 import { useState } from "react";
 import { ActionIcon, Button, Center, Collapse, Divider, Group, ScrollArea, Stack, Switch, Text, Tooltip } from "@mantine/core";
-import { IconChevronDown, IconChevronUp } from "@tabler/icons-react";
+import { IconChevronDown, IconChevronUp, IconGitBranch } from "@tabler/icons-react";
 import { useQuestViewer } from "../../hooks/useQuestViewer";
+import PrerequisiteModal from "../overlay/PrerequisiteModal";
+import { describeEntity, describeStepItems } from "../../util/entities";
+import { describeCondition, rawStepAt } from "../../util/stepAlternatives";
+import { hasGeneratedQuestData } from "../../util/requirements";
+import type { StepAlternative } from "../../types/Steps";
 import DraggableBox from "./draggableBox";
 
 export default function QuestViewer() {
-  const { quest, panelStartIndices, parallelPanels, setParallelPanels, hasStepsInRoute, isPanelFullyAdded, isStepPast, handleAddStep, handleAddPanel, isQuestComplete, closeViewer } = useQuestViewer();
+  const { quest, panelStartIndices, parallelPanels, setParallelPanels, hasStepsInRoute, isPanelFullyAdded, isStepPast, handleAddStep, handleAddPanel, handleAddAlternative, isQuestComplete, closeViewer, pendingPrerequisites, resolvePrerequisites, cancelPrerequisites } = useQuestViewer();
   const [collapsedPanels, setCollapsedPanels] = useState<Set<number>>(new Set());
+  const [expandedSteps, setExpandedSteps] = useState<Set<number>>(new Set());
 
   if (!quest) return null;
 
@@ -19,6 +25,53 @@ export default function QuestViewer() {
     });
   };
 
+  const toggleAlternatives = (flatIndex: number) => {
+    setExpandedSteps((prev) => {
+      const next = new Set(prev);
+      if (next.has(flatIndex)) next.delete(flatIndex);
+      else next.add(flatIndex);
+      return next;
+    });
+  };
+
+  const renderAlternatives = (
+    alternatives: StepAlternative[],
+    flatIndex: number,
+    panelStartIndex: number,
+    path: number[],
+    isPast: boolean
+  ) => (
+    <Stack gap={4} pl="xs" style={{ borderLeft: "2px solid var(--mantine-color-default-border)" }}>
+      {alternatives.map((alternative, index) => {
+        const branch = [...path, index];
+        return (
+          <Stack key={branch.join(".")} gap={4}>
+            <Group wrap="nowrap" align="center" gap="xs">
+              <Stack gap={0} style={{ flex: 1 }}>
+                <Text size="xs" c="dimmed">{describeCondition(alternative)}</Text>
+                {alternative.description && <Text size="sm">{alternative.description}</Text>}
+                {alternative.entity && <Text size="xs" c="dimmed">{describeEntity(alternative.entity)}</Text>}
+                {alternative.items && <Text size="xs" c="dimmed">{describeStepItems(alternative.items)}</Text>}
+              </Stack>
+              {alternative.description && (
+                <Button
+                  size="xs"
+                  variant="subtle"
+                  disabled={isPast}
+                  style={{ flexShrink: 0 }}
+                  onClick={() => handleAddAlternative(flatIndex, panelStartIndex, branch)}
+                >
+                  Add
+                </Button>
+              )}
+            </Group>
+            {alternative.alternatives && renderAlternatives(alternative.alternatives, flatIndex, panelStartIndex, branch, isPast)}
+          </Stack>
+        );
+      })}
+    </Stack>
+  );
+
   const renderPanelHeader = (
     panelName: string,
     panelIdx: number,
@@ -55,34 +108,61 @@ export default function QuestViewer() {
     const flatStep = quest.flatSteps[flatIndex];
     if (!flatStep) return null;
 
-    const isPast = isStepPast(flatIndex, panelStartIndex);
+    const isPast = isStepPast(flatIndex);
+    const alternatives = rawStepAt(quest, flatIndex)?.alternatives;
+    const isExpanded = expandedSteps.has(flatIndex);
 
     return (
-      <Group
-        key={flatStep.id}
-        wrap="nowrap"
-        align="center"
-        gap="xs"
-        px={4}
-        py={2}
-        style={{ borderRadius: "var(--mantine-radius-sm)" }}
-      >
-        <Text size="sm" w={20} ta="center" style={{ flexShrink: 0 }}>
-          {flatIndex + 1}
-        </Text>
-        <Text size="sm" style={{ flex: 1 }}>
-          {flatStep.description}
-        </Text>
-        <Button
-          size="xs"
-          variant="light"
-          disabled={isPast}
-          style={{ flexShrink: 0 }}
-          onClick={() => handleAddStep(flatIndex, panelStartIndex)}
+      <Stack key={flatStep.id} gap={4}>
+        <Group
+          wrap="nowrap"
+          align="center"
+          gap="xs"
+          px={4}
+          py={2}
+          style={{ borderRadius: "var(--mantine-radius-sm)" }}
         >
-          Add
-        </Button>
-      </Group>
+          <Text size="sm" w={20} ta="center" style={{ flexShrink: 0 }}>
+            {flatIndex + 1}
+          </Text>
+          <Stack gap={0} style={{ flex: 1 }}>
+            <Text size="sm">{flatStep.description}</Text>
+            {flatStep.entity && (
+              <Text size="xs" c="dimmed">{describeEntity(flatStep.entity)}</Text>
+            )}
+            {flatStep.items && (
+              <Text size="xs" c="dimmed">{describeStepItems(flatStep.items)}</Text>
+            )}
+          </Stack>
+          {alternatives && (
+            <Tooltip label={`${alternatives.length} alternatives`} withArrow zIndex={1001}>
+              <ActionIcon
+                variant={isExpanded ? "light" : "subtle"}
+                size="sm"
+                style={{ flexShrink: 0 }}
+                onClick={() => toggleAlternatives(flatIndex)}
+                aria-label={isExpanded ? "Hide alternatives" : "Show alternatives"}
+              >
+                <IconGitBranch size={14} />
+              </ActionIcon>
+            </Tooltip>
+          )}
+          <Button
+            size="xs"
+            variant="light"
+            disabled={isPast}
+            style={{ flexShrink: 0 }}
+            onClick={() => handleAddStep(flatIndex, panelStartIndex)}
+          >
+            Add
+          </Button>
+        </Group>
+        {alternatives && (
+          <Collapse in={isExpanded}>
+            <Stack pl={28}>{renderAlternatives(alternatives, flatIndex, panelStartIndex, [], isPast)}</Stack>
+          </Collapse>
+        )}
+      </Stack>
     );
   };
 
@@ -113,7 +193,7 @@ export default function QuestViewer() {
   return (
     <DraggableBox
       title={quest.name}
-      info={"Add steps from the selected quest to your Route.\nSteps can be added in order from a group, and groups can be done out of order (even if you cant in game, this is to allow quests like Dragon Slayer 1 to do the map pieces in any order or even in parallel)"}
+      info={"Add steps from the selected quest to your Route.\nSteps can be added in order from a group, and groups can be done out of order (even if you cant in game, this is to allow quests like Dragon Slayer 1 to do the map pieces in any order or even in parallel)\nSteps with a branch icon have alternatives from Quest Helper's conditions; one of them can be added in place of the step."}
       initialPosition={{ x: window.innerWidth - 320 - 12, y: 12 }}
       onClose={closeViewer}
     >
@@ -148,6 +228,11 @@ export default function QuestViewer() {
               </Group>
             </Tooltip>
           </Center>
+          {!hasGeneratedQuestData(quest) && (
+            <Text size="xs" c="orange" ta="center" mb="xs">
+              Requirements, rewards and step items not generated yet. Run npm run build:quests to add them.
+            </Text>
+          )}
           <ScrollArea.Autosize mah={1000} offsetScrollbars>
             <Stack gap="xs">
               <Divider />
@@ -156,6 +241,7 @@ export default function QuestViewer() {
           </ScrollArea.Autosize>
         </>
       )}
+      <PrerequisiteModal pending={pendingPrerequisites} onResolve={resolvePrerequisites} onCancel={cancelPrerequisites} />
     </DraggableBox>
   );
 }
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { ActionIcon, Button, CopyButton, FileButton, Group, Modal, Stack, Text, TextInput, Tooltip } from "@mantine/core";
+import { IconCheck, IconCopy, IconDownload, IconLink, IconPencil, IconPlus, IconTrashFilled, IconUpload } from "@tabler/icons-react";
+import { useActiveRouteId, useSavedRoute, useSavedRouteIds } from "../../stores/routeLibraryStore";
+import { useRouteManager } from "../../hooks/useRouteManager";
+import { useRouteTransfer, type RouteImportReport } from "../../hooks/useRouteTransfer";
+import { CHAT_LINK_LIMIT } from "../../util/routeLink";
+import RouteImportReportModal from "../overlay/RouteImportReportModal";
+import DraggableBox from "./draggableBox";
+
+function RouteRow({ id, isActive }: { id: string; isActive: boolean }) {
+  const route = useSavedRoute(id);
+  const { switchRoute, duplicateRoute, deleteRoute, renameRoute } = useRouteManager();
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState("");
+
+  if (!route) return null;
+
+  const startRename = () => {
+    setName(route.name);
+    setEditing(true);
+  };
+
+  const commitRename = () => {
+    const trimmed = name.trim();
+    if (trimmed) renameRoute(id, trimmed);
+    setEditing(false);
+  };
+
+  return (
+    <Group className="route-step" wrap="nowrap" align="center" gap="xs" px={4} py={2} data-active={isActive || undefined}>
+      {editing ? (
+        <TextInput
+          size="xs"
+          style={{ flex: 1 }}
+          value={name}
+          autoFocus
+          onChange={(e) => setName(e.currentTarget.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitRename();
+            if (e.key === "Escape") setEditing(false);
+          }}
+        />
+      ) : (
+        <Text
+          size="sm"
+          fw={isActive ? 600 : undefined}
+          style={{ flex: 1, cursor: "pointer" }}
+          onClick={() => switchRoute(id)}
+        >
+          {route.name}{" "}
+          <Text span size="xs" c="dimmed">({route.steps.length} steps)</Text>
+        </Text>
+      )}
+      {editing ? (
+        <ActionIcon variant="subtle" size="sm" onClick={commitRename} aria-label="Save name">
+          <IconCheck size={14} />
+        </ActionIcon>
+      ) : (
+        <ActionIcon variant="subtle" size="sm" onClick={startRename} aria-label="Rename route">
+          <IconPencil size={14} />
+        </ActionIcon>
+      )}
+      <ActionIcon variant="subtle" size="sm" onClick={() => duplicateRoute(id)} aria-label="Duplicate route">
+        <IconCopy size={14} />
+      </ActionIcon>
+      <ActionIcon variant="subtle" color="red" size="sm" onClick={() => deleteRoute(id)} aria-label="Delete route">
+        <IconTrashFilled size={14} />
+      </ActionIcon>
+    </Group>
+  );
+}
+
+export default function RouteManager() {
+  const routeIds = useSavedRouteIds();
+  const activeRouteId = useActiveRouteId();
+  const { createRoute } = useRouteManager();
+  const { exportRoute, importRoute, shareRoute } = useRouteTransfer();
+  const [newName, setNewName] = useState("");
+  const [importReport, setImportReport] = useState<RouteImportReport | null>(null);
+  const [shareLink, setShareLink] = useState<string | null>(null);
+
+  const handleImport = async (file: File | null) => {
+    if (file) setImportReport(await importRoute(file));
+  };
+
+  const handleCreate = () => {
+    createRoute(newName.trim() || `Route ${routeIds.length + 1}`);
+    setNewName("");
+  };
+
+  return (
+    <DraggableBox
+      title="Saved Routes"
+      info={"Routes are saved in this browser automatically.\nClick a route to switch to it; the current route is saved first."}
+      initialPosition={{ x: 12, y: window.innerHeight - 320 }}
+    >
+      <Stack gap="xs">
+        <Group gap="xs" wrap="nowrap">
+          <TextInput
+            size="xs"
+            placeholder="New route name"
+            style={{ flex: 1 }}
+            value={newName}
+            onChange={(e) => setNewName(e.currentTarget.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+          />
+          <Tooltip label="Create route" withArrow zIndex={1001}>
+            <Button size="xs" variant="light" onClick={handleCreate} aria-label="Create route">
+              <IconPlus size={14} />
+            </Button>
+          </Tooltip>
+        </Group>
+        <Stack gap={4}>
+          {routeIds.map((id) => (
+            <RouteRow key={id} id={id} isActive={id === activeRouteId} />
+          ))}
+        </Stack>
+        <Group gap="xs" grow>
+          <Button size="xs" variant="light" leftSection={<IconDownload size={14} />} onClick={exportRoute}>
+            Export
+          </Button>
+          <FileButton onChange={handleImport} accept="application/json,.json">
+            {(props) => (
+              <Button {...props} size="xs" variant="light" leftSection={<IconUpload size={14} />}>
+                Import
+              </Button>
+            )}
+          </FileButton>
+          <Button size="xs" variant="light" leftSection={<IconLink size={14} />} onClick={async () => setShareLink(await shareRoute())}>
+            Share
+          </Button>
+        </Group>
+      </Stack>
+      <RouteImportReportModal title="Route import" report={importReport} onClose={() => setImportReport(null)} />
+      <Modal opened={shareLink !== null} onClose={() => setShareLink(null)} title="Share route" zIndex={1100}>
+        <Stack gap="xs">
+          <Group gap="xs" wrap="nowrap">
+            <TextInput size="xs" style={{ flex: 1 }} value={shareLink ?? ""} readOnly onFocus={(e) => e.currentTarget.select()} />
+            <CopyButton value={shareLink ?? ""}>
+              {({ copied, copy }) => (
+                <Button size="xs" variant="light" color={copied ? "teal" : undefined} onClick={copy}>
+                  {copied ? "Copied" : "Copy"}
+                </Button>
+              )}
+            </CopyButton>
+          </Group>
+          <Text size="xs" c={shareLink && shareLink.length > CHAT_LINK_LIMIT ? "orange" : "dimmed"}>
+            {shareLink && shareLink.length > CHAT_LINK_LIMIT
+              ? `This link is ${shareLink.length} characters, over Discord's ${CHAT_LINK_LIMIT}-character message limit. Export the route as a file instead, or split it into smaller routes.`
+              : `${shareLink?.length ?? 0} characters.`}
+          </Text>
+        </Stack>
+      </Modal>
+    </DraggableBox>
+  );
+}
@@ -1,35 +1,202 @@
-import { ActionIcon, Button, Group, ScrollArea, Stack, Text } from "@mantine/core";
-import { IconTrashFilled } from "@tabler/icons-react";
-import { useRoute, useRouteActions } from "../../stores/routeStore";
+import { useEffect, useRef, useState } from "react";
+import { ActionIcon, Box, Button, Group, ScrollArea, Stack, Text } from "@mantine/core";
+import { IconGripVertical, IconPencil, IconTrashFilled } from "@tabler/icons-react";
+import { useRoute, useRouteActions, useSelectedStepId } from "../../stores/routeStore";
 import { useQuestActions } from "../../stores/questStore";
+import { useHistoryActions } from "../../stores/historyStore";
+import { useStepEditorActions } from "../../stores/stepEditorStore";
 import { useDeleteStep } from "../../hooks/useDeleteStep";
+import { useMoveStep, type MoveStepResult } from "../../hooks/useMoveStep";
+import { useRouteLegs } from "../../hooks/useRouteLegs";
+import { useRouteOptimiser } from "../../hooks/useRouteOptimiser";
+import { useRouteProgression, useRouteRequirements } from "../../hooks/useRouteRequirements";
+import RouteOptimiserModal from "../overlay/RouteOptimiserModal";
+import { formatTicks, type RouteLeg } from "../../util/travel";
+import { planTransports } from "../../util/transportRouter";
+import { describeEntity, describeStepItems } from "../../util/entities";
+import { formatSkill, totalXp, type PlayerState } from "../../util/requirements";
+import type { Skill } from "../../types/QuestData";
 import DraggableBox from "./draggableBox";
 
+/** "via Varrock Teleport, Fairy ring to CKS Canifis · 27t (16s)" when the cheapest plan uses transports. */
+function describeLegTransport(leg: RouteLeg): string | null {
+  const transports = planTransports(leg.plan ?? null);
+  if (!leg.plan || transports.length === 0) return null;
+  return `via ${transports.map((t) => t.name).join(", ")} · ${formatTicks(leg.plan.ticks)}`;
+}
+
+function describeLeg(leg: RouteLeg): string | null {
+  if (leg.unmeasurable === "plane") return "Plane change — not measurable";
+  if (leg.unmeasurable === "dungeon") return "Enters/leaves underground — not measurable";
+  if (leg.distance === null || leg.walkTicks === null || leg.runTicks === null) return null;
+  const inherited = leg.inherited ? " (inherited position)" : "";
+  const tiles = leg.pathed ? `${leg.distance} tiles walked` : `${leg.distance} tiles`;
+  return `${tiles} · walk ${formatTicks(leg.walkTicks)} · run ${formatTicks(leg.runTicks)} · total ${leg.runningDistance}${inherited}`;
+}
+
+/** "+650 Agility (→ 12), +300 Thieving · 14,250 total XP" when the step gains XP. */
+function describeXpGain(before: PlayerState, after: PlayerState): string | null {
+  if (before.xp === after.xp) return null;
+  const gains = (Object.keys(after.xp) as Skill[])
+    .filter((skill) => after.xp[skill] > before.xp[skill])
+    .map((skill) => {
+      const levelUp = after.levels[skill] > before.levels[skill] ? ` (→ ${after.levels[skill]})` : "";
+      return `+${(after.xp[skill] - before.xp[skill]).toLocaleString()} ${formatSkill(skill)}${levelUp}`;
+    });
+  if (gains.length === 0) return null;
+  return `${gains.join(", ")} · ${totalXp(after).toLocaleString()} total XP`;
+}
+
 export default function RouteViewer() {
   const route = useRoute();
-  const { reset: resetRoute } = useRouteActions();
+  const { reset: resetRoute, selectStep } = useRouteActions();
+  const selectedStepId = useSelectedStepId();
+  const stepRefs = useRef(new Map<string, HTMLDivElement>());
   const { reset: resetQuests } = useQuestActions();
+  const { transact } = useHistoryActions();
+  const { openEdit } = useStepEditorActions();
   const deleteStep = useDeleteStep();
+  const moveStep = useMoveStep();
+  const { legs, totals } = useRouteLegs();
+  const optimiser = useRouteOptimiser();
+  const requirementIssues = useRouteRequirements();
+  const progression = useRouteProgression();
+  const flaggedQuests = Object.keys(requirementIssues).length;
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [moveResult, setMoveResult] = useState<MoveStepResult | null>(null);
+
+  // Bring the selected step into view when it is picked from the map.
+  useEffect(() => {
+    if (selectedStepId) stepRefs.current.get(selectedStepId)?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [selectedStepId]);
 
   const handleReset = () => {
-    resetRoute();
-    resetQuests();
+    transact("Reset route", () => {
+      resetRoute();
+      resetQuests();
+    });
+    setMoveResult(null);
+  };
+
+  const handleDrop = (toIndex: number) => {
+    if (dragIndex !== null) setMoveResult(moveStep(dragIndex, toIndex));
+    setDragIndex(null);
+    setDropIndex(null);
   };
 
   return (
-    <DraggableBox title="Route" info="View and modify your Route." initialPosition={{ x: 12, y: 100 }}>
+    <DraggableBox
+      title="Route"
+      info={"View and modify your Route; right-click the map to add a custom step.\nDistances follow the collision map when it has been built, otherwise straight lines. A tick is 0.6s.\nOptimise reorders steps between custom steps to shorten the route.\nDrag a step by its grip to move it. Moves that break a quest's step order are refused."}
+      initialPosition={{ x: 12, y: 100 }}
+    >
       <Stack gap="xs">
-        <Button variant="light" color="red" size="xs" onClick={handleReset}>
-          Reset
-        </Button>
+        <Group gap="xs" grow>
+          <Button variant="light" size="xs" onClick={optimiser.optimise} disabled={route.length < 3}>
+            Optimise
+          </Button>
+          <Button variant="light" color="red" size="xs" onClick={handleReset}>
+            Reset
+          </Button>
+        </Group>
+        {route.length > 0 && (
+          <Text size="xs" c="dimmed">
+            Total: {totals.distance} tiles · walk {formatTicks(totals.walkTicks)} · run {formatTicks(totals.runTicks)} · with transports {formatTicks(totals.plannedTicks)}
+            {totals.unmeasurableLegs > 0 && ` · ${totals.unmeasurableLegs} leg${totals.unmeasurableLegs === 1 ? "" : "s"} not measured`}
+          </Text>
+        )}
+        {flaggedQuests > 0 && (
+          <Text size="xs" c="red">
+            {flaggedQuests} quest{flaggedQuests === 1 ? " starts" : "s start"} before {flaggedQuests === 1 ? "its" : "their"} requirements are met.
+          </Text>
+        )}
+        {moveResult?.error && (
+          <Text size="xs" c="red">{moveResult.error}</Text>
+        )}
+        {moveResult?.warning && (
+          <Text size="xs" c="orange">{moveResult.warning}</Text>
+        )}
         <ScrollArea.Autosize mah={1000} offsetScrollbars>
           {route.length === 0 ? (
             <Text size="sm" c="dimmed">No steps added yet.</Text>
           ) : (
             <Stack gap="xs">
-              {route.map((step) => (
-                <Group key={`${step.id}-${step.description}`} className="route-step" wrap="nowrap" align="center" gap="xs" px={4} py={2}>
-                  <Text size="sm" style={{ flex: 1 }}>{step.description}</Text>
+              {route.map((step, index) => (
+                <Group
+                  key={`${step.id}-${step.description}`}
+                  ref={(el) => {
+                    if (el) stepRefs.current.set(step.id, el);
+                    else stepRefs.current.delete(step.id);
+                  }}
+                  className="route-step"
+                  data-active={step.id === selectedStepId || undefined}
+                  data-drop-target={dropIndex === index && dragIndex !== index ? true : undefined}
+                  wrap="nowrap"
+                  align="center"
+                  gap="xs"
+                  px={4}
+                  py={2}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setDropIndex(index);
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDrop(index);
+                  }}
+                  style={{ opacity: dragIndex === index ? 0.5 : 1 }}
+                >
+                  {/* Only the grip starts a drag, so clicking or selecting the description never does. */}
+                  <Box
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = "move";
+                      const row = stepRefs.current.get(step.id);
+                      if (row) e.dataTransfer.setDragImage(row, 0, 0);
+                      setDragIndex(index);
+                    }}
+                    onDragEnd={() => {
+                      setDragIndex(null);
+                      setDropIndex(null);
+                    }}
+                    style={{ display: "flex", cursor: "grab", flexShrink: 0 }}
+                    aria-label="Drag to reorder"
+                  >
+                    <IconGripVertical size={14} />
+                  </Box>
+                  <Text size="xs" c="dimmed" w={20} ta="right" style={{ flexShrink: 0 }}>{index + 1}</Text>
+                  <Stack gap={0} style={{ flex: 1, cursor: "pointer" }} onClick={() => selectStep(step.id === selectedStepId ? null : step.id)}>
+                    <Text size="sm">{step.description}</Text>
+                    {step.kind === "diary" && <Text size="xs" c="dimmed">{step.diaryId} diary</Text>}
+                    {requirementIssues[step.id]?.map((issue) => (
+                      <Text key={issue.message} size="xs" c="red">{issue.message}</Text>
+                    ))}
+                    {describeXpGain(progression[index], progression[index + 1]) && (
+                      <Text size="xs" c="teal">{describeXpGain(progression[index], progression[index + 1])}</Text>
+                    )}
+                    {(step.entity || (step.kind === "custom" && step.notes)) && (
+                      <Text size="xs" c="dimmed">
+                        {step.entity && describeEntity(step.entity)}
+                        {step.kind === "custom" && step.entity && step.notes && " · "}
+                        {step.kind === "custom" && step.notes}
+                      </Text>
+                    )}
+                    {step.kind !== "custom" && step.items && (
+                      <Text size="xs" c="dimmed">{describeStepItems(step.items)}</Text>
+                    )}
+                    {legs[index] && describeLeg(legs[index]) && (
+                      <Text size="xs" c={legs[index].unmeasurable ? "orange" : "dimmed"}>{describeLeg(legs[index])}</Text>
+                    )}
+                    {legs[index] && describeLegTransport(legs[index]) && (
+                      <Text size="xs" c="blue">{describeLegTransport(legs[index])}</Text>
+                    )}
+                  </Stack>
+                  {step.kind === "custom" && (
+                    <ActionIcon variant="subtle" size="sm" onClick={() => openEdit(step.id, step.worldpoint)} aria-label="Edit step">
+                      <IconPencil size={14} />
+                    </ActionIcon>
+                  )}
                   <ActionIcon variant="subtle" color="red" size="sm" onClick={() => deleteStep(step.id)} aria-label="Delete step">
                     <IconTrashFilled size={14} />
                   </ActionIcon>
@@ -39,6 +206,13 @@ export default function RouteViewer() {
           )}
         </ScrollArea.Autosize>
       </Stack>
+      <RouteOptimiserModal
+        status={optimiser.status}
+        proposal={optimiser.proposal}
+        error={optimiser.error}
+        onAccept={optimiser.accept}
+        onReject={optimiser.dismiss}
+      />
     </DraggableBox>
   );
 }
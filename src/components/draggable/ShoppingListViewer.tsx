@@ -0,0 +1,92 @@
+import { useMemo, useState } from "react";
+import { Checkbox, Group, ScrollArea, Select, Stack, Text } from "@mantine/core";
+import { useProfile, useProfileActions } from "../../stores/profileStore";
+import { useQuestStore } from "../../stores/questStore";
+import { useItemTable } from "../../stores/referenceDataStore";
+import { useRoute } from "../../stores/routeStore";
+import { hasGeneratedQuestData } from "../../util/requirements";
+import { buildShoppingList, questsStartedInSection, splitRouteSections } from "../../util/shoppingList";
+import DraggableBox from "./draggableBox";
+
+const WHOLE_ROUTE = "all";
+
+export default function ShoppingListViewer() {
+  const route = useRoute();
+  const quests = useQuestStore((s) => s.quests);
+  const items = useItemTable();
+  const { bankedItems } = useProfile();
+  const { setItemBanked } = useProfileActions();
+  const [sectionKey, setSectionKey] = useState(WHOLE_ROUTE);
+
+  const sections = useMemo(() => splitRouteSections(route), [route]);
+  // Falls back to the whole route when the picked bank stop is moved or removed.
+  const section = sections.find((s) => String(s.start) === sectionKey);
+  const start = section?.start ?? 0;
+  const end = section?.end ?? route.length;
+
+  const list = useMemo(() => buildShoppingList(route, quests, items, start, end), [route, quests, items, start, end]);
+  // Quest files from before item parsing have empty item lists, so their items are unknown rather than none.
+  const ungenerated = questsStartedInSection(route, start, end).filter((id) => quests[id] && !hasGeneratedQuestData(quests[id]));
+  const banked = new Set(bankedItems);
+  const toWithdraw = list.filter((item) => !banked.has(item.name)).length;
+
+  return (
+    <DraggableBox
+      title="Shopping list"
+      info={"Item requirements of the quests started in a section of the route.\nCustom steps mentioning a bank split the route into sections, so each section lists what to withdraw before leaving that bank.\nTick items you already have; ticks are saved with the Player profile."}
+      initialPosition={{ x: 944, y: 100 }}
+      width={300}
+    >
+      <Stack gap="xs" ta="left">
+        <Select
+          size="xs"
+          data={[
+            { value: WHOLE_ROUTE, label: "Whole route" },
+            ...sections.map((s) => ({ value: String(s.start), label: `${s.label} (${s.end - s.start} steps)` })),
+          ]}
+          value={section ? sectionKey : WHOLE_ROUTE}
+          onChange={(value) => setSectionKey(value ?? WHOLE_ROUTE)}
+          allowDeselect={false}
+          comboboxProps={{ zIndex: 1001 }}
+        />
+        {ungenerated.length > 0 && (
+          <Text size="xs" c="orange">
+            Item requirements not generated yet for {ungenerated.join(", ")}. Run npm run build:quests to add them.
+          </Text>
+        )}
+        {list.length === 0 ? (
+          ungenerated.length === 0 && <Text size="xs" c="dimmed">No item requirements for the quests started here.</Text>
+        ) : (
+          <>
+            <Text size="xs" c="dimmed">
+              {toWithdraw === 0 ? "Everything is ticked off." : `Withdraw before leaving: ${toWithdraw} of ${list.length} items`}
+            </Text>
+            <ScrollArea.Autosize mah={400} offsetScrollbars>
+              <Stack gap={4}>
+                {list.map((item) => (
+                  <Group key={item.name} gap="xs" wrap="nowrap" align="flex-start">
+                    <Checkbox
+                      size="xs"
+                      mt={2}
+                      checked={banked.has(item.name)}
+                      onChange={(e) => setItemBanked(item.name, e.currentTarget.checked)}
+                      aria-label={`${item.name} in bank`}
+                    />
+                    <Stack gap={0} style={{ flex: 1 }}>
+                      <Text size="xs" td={banked.has(item.name) ? "line-through" : undefined}>
+                        {item.quantity > 1 ? `${item.quantity.toLocaleString()}× ` : ""}{item.name}
+                      </Text>
+                      <Text size="xs" c="dimmed">
+                        {item.ids.length > 0 ? `ID ${item.ids.join(", ")}` : "Unknown item"} · {item.quests.join(", ")}
+                      </Text>
+                    </Stack>
+                  </Group>
+                ))}
+              </Stack>
+            </ScrollArea.Autosize>
+          </>
+        )}
+      </Stack>
+    </DraggableBox>
+  );
+}
@@ -0,0 +1,163 @@
+import { useMemo, useState } from "react";
+import { Divider, Group, ScrollArea, Select, Slider, Stack, Table, Text } from "@mantine/core";
+import { useRouteProgression } from "../../hooks/useRouteRequirements";
+import { useHistoryActions } from "../../stores/historyStore";
+import { useQuestActions, useQuestStore } from "../../stores/questStore";
+import { useRoute } from "../../stores/routeStore";
+import { Skill } from "../../types/QuestData";
+import { lampSkillOptions } from "../../util/experience";
+import { formatSkill, totalXp, type PlayerState } from "../../util/requirements";
+import DraggableBox from "./draggableBox";
+
+const CHART_WIDTH = 280;
+const CHART_HEIGHT = 80;
+
+/** Level of `skill` across the route, one point per progression entry. */
+function SkillChart({ progression, skill, selected }: { progression: PlayerState[]; skill: Skill; selected: number }) {
+  const levels = progression.map((state) => state.levels[skill]);
+  const min = Math.min(...levels);
+  const max = Math.max(...levels);
+  const span = Math.max(1, max - min);
+  const stepX = progression.length > 1 ? CHART_WIDTH / (progression.length - 1) : 0;
+  const toY = (level: number) => CHART_HEIGHT - ((level - min) / span) * (CHART_HEIGHT - 8) - 4;
+  const points = levels.map((level, index) => `${index * stepX},${toY(level)}`).join(" ");
+
+  return (
+    <Stack gap={2}>
+      <svg width={CHART_WIDTH} height={CHART_HEIGHT} style={{ overflow: "visible" }}>
+        <line x1={0} y1={CHART_HEIGHT} x2={CHART_WIDTH} y2={CHART_HEIGHT} stroke="var(--mantine-color-dimmed)" />
+        <line x1={selected * stepX} y1={0} x2={selected * stepX} y2={CHART_HEIGHT} stroke="var(--mantine-color-blue-4)" strokeDasharray="3 3" />
+        <polyline points={points} fill="none" stroke="var(--mantine-color-teal-5)" strokeWidth={2} />
+      </svg>
+      <Group justify="space-between">
+        <Text size="xs" c="dimmed">{min}</Text>
+        <Text size="xs" c="dimmed">{max}</Text>
+      </Group>
+    </Stack>
+  );
+}
+
+export default function SkillsViewer() {
+  const route = useRoute();
+  const quests = useQuestStore((s) => s.quests);
+  const progression = useRouteProgression();
+  const { setLampSkills } = useQuestActions();
+  const { transact } = useHistoryActions();
+  const [position, setPosition] = useState<number | null>(null);
+  const [chartSkill, setChartSkill] = useState<Skill>(Skill.ATTACK);
+
+  // Defaults to the end of the route and stays in range as steps are removed.
+  const selected = Math.min(position ?? route.length, route.length);
+  const start = progression[0];
+  const current = progression[selected];
+
+  const lampQuests = useMemo(() => {
+    const ids = new Set(route.flatMap((step) => (step.kind === "quest" ? [step.questId] : [])));
+    return [...ids].map((id) => quests[id]).filter((quest) => quest?.lampRewards);
+  }, [route, quests]);
+
+  const assignLamp = (questId: string, slot: number, skill: Skill | null) => {
+    const quest = quests[questId];
+    if (!quest?.lampRewards) return;
+    const skills: (Skill | null)[] = Array.from({ length: quest.lampRewards.quantity }, (_, i) => quest.lampSkills[i] ?? null);
+    skills[slot] = skill;
+    // Lamps are applied in order, so stop at the first unassigned slot.
+    const firstEmpty = skills.indexOf(null);
+    const assigned = (firstEmpty === -1 ? skills : skills.slice(0, firstEmpty)) as Skill[];
+    transact(`${quest.name}: lamp ${slot + 1} → ${skill ? formatSkill(skill) : "unassigned"}`, () =>
+      setLampSkills(questId, assigned)
+    );
+  };
+
+  const stepLabel = selected === 0 ? "Start of route" : `After step ${selected}: ${route[selected - 1].description}`;
+
+  return (
+    <DraggableBox
+      title="Skills"
+      info={"Projected levels along the route, starting from the Player panel.\nQuest XP is gained once all of a quest's steps in the route are done; lamps count once assigned to a skill."}
+      initialPosition={{ x: 616, y: 420 }}
+      width={320}
+    >
+      <ScrollArea.Autosize mah={500} offsetScrollbars>
+        <Stack gap="xs" ta="left">
+          <Slider
+            size="sm"
+            min={0}
+            max={route.length}
+            value={selected}
+            onChange={setPosition}
+            label={null}
+            disabled={route.length === 0}
+          />
+          <Text size="xs" lineClamp={1}>{stepLabel}</Text>
+          <Text size="xs" c="dimmed">
+            Total XP {totalXp(current).toLocaleString()} (+{(totalXp(current) - totalXp(start)).toLocaleString()})
+          </Text>
+          <Table fz="xs" verticalSpacing={2} horizontalSpacing={4} highlightOnHover>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Skill</Table.Th>
+                <Table.Th>Level</Table.Th>
+                <Table.Th>XP</Table.Th>
+                <Table.Th>Gained</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {Object.values(Skill).map((skill) => {
+                const gained = current.xp[skill] - start.xp[skill];
+                return (
+                  <Table.Tr
+                    key={skill}
+                    style={{ cursor: "pointer" }}
+                    bg={skill === chartSkill ? "var(--mantine-color-default-hover)" : undefined}
+                    onClick={() => setChartSkill(skill)}
+                  >
+                    <Table.Td>{formatSkill(skill)}</Table.Td>
+                    <Table.Td c={current.levels[skill] > start.levels[skill] ? "teal" : undefined}>
+                      {current.levels[skill]}
+                    </Table.Td>
+                    <Table.Td>{current.xp[skill].toLocaleString()}</Table.Td>
+                    <Table.Td c={gained > 0 ? "teal" : "dimmed"}>{gained > 0 ? `+${gained.toLocaleString()}` : "–"}</Table.Td>
+                  </Table.Tr>
+                );
+              })}
+            </Table.Tbody>
+          </Table>
+          <Divider label={`${formatSkill(chartSkill)} level`} labelPosition="left" />
+          <SkillChart progression={progression} skill={chartSkill} selected={selected} />
+          {lampQuests.length > 0 && (
+            <>
+              <Divider label="Lamps" labelPosition="left" />
+              {lampQuests.map((quest) => {
+                const lamp = quest.lampRewards!;
+                const options = lampSkillOptions(lamp.skills).map((skill) => ({ value: skill, label: formatSkill(skill) }));
+                return (
+                  <Stack key={quest.name} gap={4}>
+                    <Text size="xs">
+                      {quest.name}: {lamp.quantity}× {lamp.value.toLocaleString()} XP
+                    </Text>
+                    <Group gap={4} grow>
+                      {Array.from({ length: lamp.quantity }, (_, slot) => (
+                        <Select
+                          key={slot}
+                          size="xs"
+                          placeholder="Skill"
+                          data={options}
+                          value={quest.lampSkills[slot] ?? null}
+                          onChange={(value) => assignLamp(quest.name, slot, value as Skill | null)}
+                          disabled={slot > quest.lampSkills.length}
+                          clearable
+                          comboboxProps={{ zIndex: 1001 }}
+                        />
+                      ))}
+                    </Group>
+                  </Stack>
+                );
+              })}
+            </>
+          )}
+        </Stack>
+      </ScrollArea.Autosize>
+    </DraggableBox>
+  );
+}
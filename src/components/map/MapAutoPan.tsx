@@ -1,11 +1,13 @@
 import { useEffect, useRef } from "react";
 import { useMap } from "react-leaflet";
 import { useSelectedQuestId, useActiveStep } from "../../stores/questStore";
+import { useCoordsStoreActions } from "../../stores/coordStore";
 import { worldPointToLeaflet } from "../../util/Coordinates";
 
 function ActiveStepPanner({ questId }: { questId: string }) {
   const map = useMap();
   const step = useActiveStep(questId);
+  const { setPlane } = useCoordsStoreActions();
   const prevWorldpointRef = useRef<string | null>(null);
 
   useEffect(() => {
@@ -13,9 +15,10 @@ function ActiveStepPanner({ questId }: { questId: string }) {
     const key = `${step.worldpoint.x},${step.worldpoint.y},${step.worldpoint.plane}`;
     if (key === prevWorldpointRef.current) return;
     prevWorldpointRef.current = key;
+    setPlane(step.worldpoint.plane);
     const { lat, lng } = worldPointToLeaflet(step.worldpoint);
     map.panTo([lat, lng], { animate: true });
-  }, [map, step?.worldpoint]);
+  }, [map, step?.worldpoint, setPlane]);
 
   return null;
 }
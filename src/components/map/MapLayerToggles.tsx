@@ -1,14 +1,19 @@
-import { Paper, Radio, SimpleGrid, Text } from "@mantine/core";
+import { Group, Paper, Radio, SegmentedControl, SimpleGrid, Text } from "@mantine/core";
 import {
   useMapVisibilityActions,
   useShowMapIcons,
   useShowMapLabels,
 } from "../../stores/mapVisibilityStore";
+import { useCoordsStoreActions, useCurrentPlane } from "../../stores/coordStore";
+
+const PLANES = ["0", "1", "2", "3"];
 
 export default function MapLayerToggles() {
   const showMapLabels = useShowMapLabels();
   const showMapIcons = useShowMapIcons();
   const { setShowMapIcons, setShowMapLabels } = useMapVisibilityActions();
+  const plane = useCurrentPlane();
+  const { setPlane } = useCoordsStoreActions();
 
   return (
     <Paper
@@ -51,6 +56,17 @@ export default function MapLayerToggles() {
           onChange={() => setShowMapIcons(false)}
         />
       </SimpleGrid>
+      <Group gap="xs" mt={6} wrap="nowrap">
+        <Text size="sm" fw={600}>
+          Plane
+        </Text>
+        <SegmentedControl
+          size="xs"
+          data={PLANES}
+          value={`${plane}`}
+          onChange={(value) => setPlane(Number(value))}
+        />
+      </Group>
     </Paper>
   );
 }
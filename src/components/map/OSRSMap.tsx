@@ -6,12 +6,16 @@ import L, { LatLngBounds } from "leaflet";
 import WorldMapLabels from "./WorldMapLabels";
 import WorldMapIcons from "./WorldMapIcons";
 import QuestPins from "./QuestPins";
+import RouteLayer from "./RouteLayer";
+import StepPlacement from "./StepPlacement";
 import CoordViewer from "./CoordViewer";
 import MapAutoPan from "./MapAutoPan";
+import { useCurrentPlane } from "../../stores/coordStore";
 
 export default function OSRSMap() {
   const bounds = new LatLngBounds([0, 0], [-1428, 405]);
   const center: [number, number] = [-1173, 273];
+  const plane = useCurrentPlane();
 
   return (
     <Box h="100%" w="100%" style={{ minHeight: 400, position: "relative" }}>
@@ -29,8 +33,8 @@ export default function OSRSMap() {
         attributionControl={false}
       >
         <TileLayer
-          key="plane-0"
-          url="https://joegandy.github.io/RSMap/tiles/0/{z}/{x}/{y}.png"
+          key={`plane-${plane}`}
+          url={`https://joegandy.github.io/RSMap/tiles/${plane}/{z}/{x}/{y}.png`}
           tileSize={256}
           noWrap={true}
           tms={true}
@@ -40,6 +44,8 @@ export default function OSRSMap() {
         />
 
         <WorldMapIcons />
+        <RouteLayer />
+        <StepPlacement />
         <QuestPins />
         <WorldMapLabels />
 
@@ -2,8 +2,11 @@ import { Marker, Tooltip } from "react-leaflet";
 import L from "leaflet";
 import { renderToStaticMarkup } from "react-dom/server";
 import { IconMapPinFilled } from "@tabler/icons-react";
-import { useActiveStep, useQuestActions } from "../../stores/questStore";
+import { useActiveStep, useQuestStore } from "../../stores/questStore";
+import { useQuestIndexActions } from "../../stores/questIndexStore";
+import { useCurrentPlane } from "../../stores/coordStore";
 import { worldPointToLeaflet } from "../../util/Coordinates";
+import type { WorldPoint } from "../../types/QuestData";
 
 const questPinIcon = L.divIcon({
   html: renderToStaticMarkup(<IconMapPinFilled size={24} color="#228be6" />),
@@ -12,21 +15,27 @@ const questPinIcon = L.divIcon({
   iconAnchor: [12, 24],
 });
 
-export default function QuestPin({ id }: { id: string }) {
+/** Pins a loaded quest at its active step, or a quest not loaded yet at `start` from the quest index. */
+export default function QuestPin({ id, start }: { id: string; start: WorldPoint | null }) {
   const step = useActiveStep(id);
-  const { selectQuest } = useQuestActions();
+  const loaded = useQuestStore((s) => id in s.quests);
+  const { openQuest } = useQuestIndexActions();
+  const plane = useCurrentPlane();
 
-  if (!step) return null;
+  const worldpoint = loaded ? step?.worldpoint : start;
+  if (!worldpoint) return null;
+  const onOtherPlane = worldpoint.plane !== plane;
 
   return (
     <Marker
       key={`marker-${id}`}
-      position={worldPointToLeaflet(step.worldpoint!)}
+      position={worldPointToLeaflet(worldpoint)}
       icon={questPinIcon}
+      opacity={onOtherPlane ? 0.4 : 1}
       zIndexOffset={1000}
-      eventHandlers={{ click: () => selectQuest(id) }}
+      eventHandlers={{ click: () => openQuest(id) }}
     >
-      <Tooltip content={id} />
+      <Tooltip content={onOtherPlane ? `${id} (plane ${worldpoint.plane})` : id} />
     </Marker>
   );
 }
\ No newline at end of file
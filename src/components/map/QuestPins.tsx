@@ -1,12 +1,12 @@
-import { useQuestIds } from "../../stores/questStore";
+import { useQuestIndex } from "../../stores/questIndexStore";
 import QuestPin from "./QuestPin";
 
 
 export default function QuestPins() {
-  const questIds = useQuestIds();
+  const entries = useQuestIndex();
   return (
     <>
-      {questIds.map(id => <QuestPin key={`marker-${id}`} id={id} />)}
+      {entries.map(entry => <QuestPin key={`marker-${entry.name}`} id={entry.name} start={entry.start} />)}
     </>
   );
-}
\ No newline at end of file
+}
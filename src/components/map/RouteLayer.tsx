@@ -0,0 +1,111 @@
+import { Marker, Polyline, Tooltip } from "react-leaflet";
+import L from "leaflet";
+import { useRoute, useRouteActions, useSelectedStepId } from "../../stores/routeStore";
+import { useCurrentPlane } from "../../stores/coordStore";
+import { useConditionalEdges, useWalkingPaths } from "../../stores/pathStore";
+import type { Step } from "../../types/Steps";
+import { worldPointToLeaflet, type WorldPoint } from "../../util/Coordinates";
+import { pathKey, usableEdgeIds } from "../../util/pathfinding";
+import { useRouteProgression } from "../../hooks/useRouteRequirements";
+
+/** One map badge: a run of consecutive route steps on the same tile. */
+interface RouteMarkerGroup {
+  worldpoint: WorldPoint;
+  /** 1-based route positions covered by this badge. */
+  first: number;
+  last: number;
+  steps: Step[];
+}
+
+function sameTile(a: WorldPoint, b: WorldPoint): boolean {
+  return a.x === b.x && a.y === b.y && a.plane === b.plane;
+}
+
+/** Groups steps with a worldpoint, merging consecutive steps that share a tile. */
+function groupRouteMarkers(route: Step[]): RouteMarkerGroup[] {
+  const groups: RouteMarkerGroup[] = [];
+  route.forEach((step, index) => {
+    if (!step.worldpoint) return;
+    const previous = groups.at(-1);
+    if (previous && previous.last === index && sameTile(previous.worldpoint, step.worldpoint)) {
+      previous.last = index + 1;
+      previous.steps.push(step);
+      return;
+    }
+    groups.push({ worldpoint: step.worldpoint, first: index + 1, last: index + 1, steps: [step] });
+  });
+  return groups;
+}
+
+function createRouteMarkerIcon(group: RouteMarkerGroup, selected: boolean, otherPlane: boolean): L.DivIcon {
+  const label = group.first === group.last ? `${group.first}` : `${group.first}–${group.last}`;
+  const planeTag = otherPlane ? `<span class="route-step-marker__plane">P${group.worldpoint.plane}</span>` : "";
+  const classes = [
+    "route-step-marker__badge",
+    selected ? "route-step-marker__badge--selected" : "",
+    otherPlane ? "route-step-marker__badge--other-plane" : "",
+  ].join(" ");
+  const width = 14 + label.length * 7 + (otherPlane ? 18 : 0);
+
+  return L.divIcon({
+    html: `<div class="${classes}">${label}${planeTag}</div>`,
+    className: "route-step-marker",
+    iconSize: [width, 20],
+    iconAnchor: [width / 2, 10],
+  });
+}
+
+export default function RouteLayer() {
+  const route = useRoute();
+  const selectedStepId = useSelectedStepId();
+  const plane = useCurrentPlane();
+  const { selectStep } = useRouteActions();
+  const paths = useWalkingPaths();
+  const edges = useConditionalEdges();
+  const progression = useRouteProgression();
+
+  const groups = groupRouteMarkers(route);
+  if (groups.length === 0) return null;
+
+  const toLatLng = (point: WorldPoint) => {
+    const { lat, lng } = worldPointToLeaflet(point);
+    return [lat, lng] as [number, number];
+  };
+  const positions = groups.map((g) => toLatLng(g.worldpoint));
+
+  // Follow the walking path between badges where one has been found, otherwise draw a straight line.
+  const line = groups.flatMap((group, index) => {
+    const previous = groups[index - 1];
+    const edgeIds = usableEdgeIds(edges, progression[group.first - 1]);
+    const path = previous ? paths[pathKey(previous.worldpoint, group.worldpoint, edgeIds)] : undefined;
+    return path?.status === "ok" ? path.path.slice(1).map(toLatLng) : [positions[index]];
+  });
+
+  return (
+    <>
+      <Polyline positions={line} pathOptions={{ color: "#fab005", weight: 3, opacity: 0.8, dashArray: "6 6" }} />
+      {groups.map((group, index) => {
+        const selected = group.steps.some((s) => s.id === selectedStepId);
+        const otherPlane = group.worldpoint.plane !== plane;
+        return (
+          <Marker
+            key={`route-${group.first}-${group.steps[0].id}`}
+            position={positions[index]}
+            icon={createRouteMarkerIcon(group, selected, otherPlane)}
+            zIndexOffset={selected ? 2000 : 1500}
+            eventHandlers={{ click: () => selectStep(group.steps[0].id) }}
+          >
+            <Tooltip>
+              {group.steps.map((s, i) => (
+                <div key={s.id}>
+                  {group.first + i}. {s.description}
+                </div>
+              ))}
+              {otherPlane && <div><em>On plane {group.worldpoint.plane}</em></div>}
+            </Tooltip>
+          </Marker>
+        );
+      })}
+    </>
+  );
+}
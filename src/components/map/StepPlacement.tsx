@@ -0,0 +1,21 @@
+import { useMapEvents } from "react-leaflet";
+import { useCurrentPlane } from "../../stores/coordStore";
+import { useStepEditorActions } from "../../stores/stepEditorStore";
+import { leafletToWorldPoint } from "../../util/Coordinates";
+
+/**
+ * Right-clicking the map opens the custom step editor at that tile.
+ * Only writes a draft to stepEditorStore; the editor panel owns the rest.
+ */
+export default function StepPlacement() {
+  const plane = useCurrentPlane();
+  const { openNew } = useStepEditorActions();
+
+  useMapEvents({
+    contextmenu(e) {
+      openNew(leafletToWorldPoint(e.latlng.lat, e.latlng.lng, plane));
+    },
+  });
+
+  return null;
+}
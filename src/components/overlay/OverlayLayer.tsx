@@ -1,13 +1,33 @@
 import MapLayerToggles from "../map/MapLayerToggles";
 import QuestViewer from "../draggable/QuestViewer";
+import QuestPicker from "../draggable/QuestPicker";
 import RouteViewer from "../draggable/RouteViewer";
+import RouteManager from "../draggable/RouteManager";
+import HistoryViewer from "../draggable/HistoryViewer";
+import CustomStepEditor from "../draggable/CustomStepEditor";
+import ProfileViewer from "../draggable/ProfileViewer";
+import SkillsViewer from "../draggable/SkillsViewer";
+import ShoppingListViewer from "../draggable/ShoppingListViewer";
+import QuestGraphViewer from "../draggable/QuestGraphViewer";
+import DataQualityViewer from "../draggable/DataQualityViewer";
+import DiaryViewer from "../draggable/DiaryViewer";
 
 export default function OverlayLayer() {
   return (
     <>
       <MapLayerToggles />
       <RouteViewer />
+      <RouteManager />
+      <HistoryViewer />
+      <ProfileViewer />
+      <SkillsViewer />
+      <ShoppingListViewer />
+      <QuestGraphViewer />
+      <DataQualityViewer />
+      <DiaryViewer />
+      <QuestPicker />
       <QuestViewer />
+      <CustomStepEditor />
     </>
   );
 }
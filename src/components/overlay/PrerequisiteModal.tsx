@@ -0,0 +1,44 @@
+import { Button, Group, List, Modal, Stack, Text } from "@mantine/core";
+import type { PendingPrerequisites } from "../../hooks/useQuestViewer";
+
+interface PrerequisiteModalProps {
+  pending: PendingPrerequisites | null;
+  onResolve: (insert: boolean) => void;
+  onCancel: () => void;
+}
+
+/** Offers to insert a quest's missing prerequisites before its first steps are added. */
+export default function PrerequisiteModal({ pending, onResolve, onCancel }: PrerequisiteModalProps) {
+  return (
+    <Modal opened={pending !== null} onClose={onCancel} title="Missing prerequisites" zIndex={1100}>
+      {pending && (
+        <Stack gap="xs">
+          <Text size="sm">{pending.quest} needs these quests completed first.</Text>
+          {pending.insertable.length > 0 && (
+            <>
+              <Text size="xs" c="dimmed">Can be inserted into the route, in this order:</Text>
+              <List size="sm" type="ordered">
+                {pending.insertable.map((name) => <List.Item key={name}>{name}</List.Item>)}
+              </List>
+            </>
+          )}
+          {pending.unavailable.length > 0 && (
+            <>
+              <Text size="xs" c="dimmed">No quest data loaded, so these can't be inserted:</Text>
+              <List size="sm">
+                {pending.unavailable.map((name) => <List.Item key={name}>{name}</List.Item>)}
+              </List>
+            </>
+          )}
+        </Stack>
+      )}
+      <Group gap="xs" justify="flex-end" mt="md">
+        <Button size="xs" variant="subtle" onClick={onCancel}>Cancel</Button>
+        <Button size="xs" variant="light" onClick={() => onResolve(false)}>Add without</Button>
+        {pending && pending.insertable.length > 0 && (
+          <Button size="xs" onClick={() => onResolve(true)}>Insert prerequisites</Button>
+        )}
+      </Group>
+    </Modal>
+  );
+}
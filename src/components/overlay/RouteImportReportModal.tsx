@@ -0,0 +1,35 @@
+import { List, Modal, Stack, Text } from "@mantine/core";
+import type { RouteImportReport } from "../../hooks/useRouteTransfer";
+
+interface RouteImportReportModalProps {
+  title: string;
+  report: RouteImportReport | null;
+  onClose: () => void;
+}
+
+/** Summarises a route import (file or shared link) and lists steps that didn't match. */
+export default function RouteImportReportModal({ title, report, onClose }: RouteImportReportModalProps) {
+  return (
+    <Modal opened={report !== null} onClose={onClose} title={title} zIndex={1100}>
+      {report?.ok === false && <Text size="sm" c="red">{report.error}</Text>}
+      {report?.ok && (
+        <Stack gap="xs">
+          <Text size="sm">
+            Imported "{report.name}" with {report.stepCount} steps.
+          </Text>
+          {report.issues.length === 0 ? (
+            <Text size="sm" c="teal">Every step matches the current quest data.</Text>
+          ) : (
+            <List size="sm" spacing={4}>
+              {report.issues.map((issue, index) => (
+                <List.Item key={index}>
+                  <Text size="sm" c={issue.kind === "changed-step" ? "yellow" : "red"}>{issue.message}</Text>
+                </List.Item>
+              ))}
+            </List>
+          )}
+        </Stack>
+      )}
+    </Modal>
+  );
+}
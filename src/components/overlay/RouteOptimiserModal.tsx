@@ -0,0 +1,68 @@
+import { Button, Group, Loader, Modal, Stack, Table, Text } from "@mantine/core";
+import type { RouteOptimisation, RouteOptimiserStatus } from "../../hooks/useRouteOptimiser";
+import { formatTicks, type RouteTravelTotals } from "../../util/travel";
+
+interface RouteOptimiserModalProps {
+  status: RouteOptimiserStatus;
+  proposal: RouteOptimisation | null;
+  error: string | null;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const ROWS: { label: string; format: (totals: RouteTravelTotals) => string }[] = [
+  { label: "Distance", format: (t) => `${t.distance} tiles` },
+  { label: "Walking", format: (t) => formatTicks(t.walkTicks) },
+  { label: "Running", format: (t) => formatTicks(t.runTicks) },
+  { label: "With transports", format: (t) => formatTicks(t.plannedTicks) },
+  { label: "Unmeasured legs", format: (t) => `${t.unmeasurableLegs}` },
+];
+
+/** Before/after comparison for a proposed route order. */
+export default function RouteOptimiserModal({ status, proposal, error, onAccept, onReject }: RouteOptimiserModalProps) {
+  return (
+    <Modal opened={status !== "idle"} onClose={onReject} title="Optimise route order" zIndex={1100}>
+      {status === "running" && (
+        <Group gap="xs">
+          <Loader size="xs" />
+          <Text size="sm">Searching for a shorter order…</Text>
+        </Group>
+      )}
+      {status === "error" && <Text size="sm" c="red">{error}</Text>}
+      {status === "done" && proposal && (
+        <Stack gap="xs">
+          <Table withTableBorder fz="sm">
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th />
+                <Table.Th>Current</Table.Th>
+                <Table.Th>Optimised</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {ROWS.map((row) => (
+                <Table.Tr key={row.label}>
+                  <Table.Td>{row.label}</Table.Td>
+                  <Table.Td>{row.format(proposal.before)}</Table.Td>
+                  <Table.Td>{row.format(proposal.after)}</Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+          {!proposal.changed && <Text size="sm" c="dimmed">No shorter order was found.</Text>}
+          <Text size="xs" c="dimmed">
+            Quest step order and custom steps stay where they are required to be.
+          </Text>
+        </Stack>
+      )}
+      <Group gap="xs" justify="flex-end" mt="md">
+        <Button size="xs" variant="subtle" onClick={onReject}>
+          {status === "done" ? "Reject" : "Cancel"}
+        </Button>
+        {status === "done" && (
+          <Button size="xs" onClick={onAccept} disabled={!proposal?.changed}>Accept</Button>
+        )}
+      </Group>
+    </Modal>
+  );
+}
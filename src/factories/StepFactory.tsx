@@ -1,5 +1,6 @@
-import { v5 as uuidv5 } from "uuid";
-import type { RawStep, QuestStep } from "../types/Steps";
+import { v4 as uuidv4, v5 as uuidv5 } from "uuid";
+import type { DiaryData } from "../types/DiaryData";
+import type { RawStep, QuestStep, CustomStep, DiaryStep, StepAlternative } from "../types/Steps";
 
 /** Stable namespace for deterministic step ID generation. */
 const STEP_NAMESPACE = "6ba7b810-9dad-11d1-80b4-00c04fd430c8"; // UUID v5 URL namespace
@@ -8,18 +9,102 @@ export function createQuestStep(data: Omit<QuestStep, 'kind' | 'xpGained'>): Que
   return { ...data, kind: 'quest', xpGained: false };
 }
 
+/**
+ * Create a custom waypoint step. Custom steps have no source data to derive an
+ * ID from, so they get a random UUID.
+ */
+export function createCustomStep(data: Omit<CustomStep, 'id' | 'kind' | 'xpGained'>): CustomStep {
+  return { ...data, id: uuidv4(), kind: 'custom', xpGained: false };
+}
+
+/** What identifies a raw step within its panel: its Java variable, or its description when the parser recorded none. */
+export function rawStepKey(raw: RawStep): string {
+  return raw.sourceVar ?? raw.description;
+}
+
 /**
  * Convert a RawStep (from JSON) into a full QuestStep.
- * ID is deterministically generated from the description using UUID v5.
+ * The ID is a UUID v5 of the quest, panel name, rawStepKey and `occurrence`,
+ * the number of earlier steps in the same panel with that key. Repeated
+ * descriptions get distinct IDs, and re-running the parser keeps them.
  */
-export function createQuestStepFromRaw(raw: RawStep, questId: string): QuestStep {
-  const id = uuidv5(raw.description, STEP_NAMESPACE);
+export function createQuestStepFromRaw(raw: RawStep, questId: string, panelName: string, occurrence: number): QuestStep {
   return {
-    id,
+    id: scopedQuestStepId(questId, panelName, rawStepKey(raw), occurrence),
     questId,
     description: raw.description,
     worldpoint: raw.worldpoint,
+    ...(raw.entity ? { entity: raw.entity } : {}),
+    ...(raw.items ? { items: raw.items } : {}),
     kind: "quest",
     xpGained: false,
   };
 }
+
+function scopedQuestStepId(questId: string, panelName: string, key: string, occurrence: number): string {
+  return uuidv5(JSON.stringify([questId, panelName, key, occurrence]), STEP_NAMESPACE);
+}
+
+/**
+ * Quest step ID createQuestStepFromRaw gives a step whose quest file has no
+ * sourceVar for it. Routes saved against such files keep these IDs after the
+ * parser starts recording sourceVar; only used to remap them.
+ */
+export function descriptionKeyedQuestStepId(questId: string, panelName: string, description: string, occurrence: number): string {
+  return scopedQuestStepId(questId, panelName, description, occurrence);
+}
+
+/**
+ * Quest step ID used before route library version 2 and route file version 2,
+ * taken from the description alone. Only used to remap old routes.
+ */
+export function legacyQuestStepId(description: string): string {
+  return uuidv5(description, STEP_NAMESPACE);
+}
+
+/**
+ * Route step for a ConditionalStep branch. It keeps the ID of the quest step it
+ * replaces, so quest order checks treat it as that step, and takes its text,
+ * location, entity and items from the branch.
+ */
+export function createQuestStepFromAlternative(step: QuestStep, alternative: StepAlternative, branch: number[]): QuestStep {
+  return {
+    id: step.id,
+    questId: step.questId,
+    description: alternative.description || step.description,
+    worldpoint: alternative.worldpoint ?? step.worldpoint,
+    ...(alternative.entity ? { entity: alternative.entity } : {}),
+    ...(alternative.items ? { items: alternative.items } : {}),
+    branch,
+    kind: "quest",
+    xpGained: step.xpGained,
+  };
+}
+
+/**
+ * Create a diary task step. The ID is derived from the diary and task names,
+ * so a task already in the route can be recognised wherever it came from.
+ */
+export function createDiaryStep(data: Omit<DiaryStep, 'id' | 'kind' | 'xpGained' | 'description'>): DiaryStep {
+  const id = uuidv5(`diary:${data.diaryId}:${data.task}`, STEP_NAMESPACE);
+  return { ...data, id, description: data.task, kind: 'diary', xpGained: false };
+}
+
+/**
+ * Route step for a task of a loaded diary. The entity comes from the task's
+ * first step that names one; items from all of its steps, first wins.
+ */
+export function createDiaryStepFromTask(diary: DiaryData, taskIndex: number): DiaryStep {
+  const task = diary.tasks[taskIndex];
+  const entity = task.steps.find((step) => step.entity)?.entity;
+  const items = task.steps
+    .flatMap((step) => step.items ?? [])
+    .filter((item, index, all) => all.findIndex((other) => other.name === item.name) === index);
+  return createDiaryStep({
+    diaryId: diary.name,
+    task: task.name,
+    ...(task.worldpoint ? { worldpoint: task.worldpoint } : {}),
+    ...(entity ? { entity } : {}),
+    ...(items.length > 0 ? { items } : {}),
+  });
+}
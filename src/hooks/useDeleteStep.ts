@@ -1,36 +1,46 @@
 import type { QuestStep } from "../types/Steps";
 import { useRoute, useRouteActions } from "../stores/routeStore";
 import { useQuestActions, useQuestStore } from "../stores/questStore";
+import { useHistoryActions } from "../stores/historyStore";
+import { getFlatIndex, mustPrecede } from "../util/routeOrder";
 
 /**
- * Returns a delete handler that cascades: when a quest step is deleted, all
- * subsequent steps of the same quest in the route are also removed and the
- * quest's activeStep is reset to the deleted step's flat index.
+ * Returns a delete handler that cascades: when a quest step is deleted, every
+ * step of the same quest that depends on it (see mustPrecede) is also removed
+ * and the quest's activeStep is reset to the deleted step's flat index.
  *
- * The grouping-by-quest and route-position logic is isolated here so that
- * future drag-and-drop reordering only needs to update this hook.
+ * Dependencies are resolved by flat index rather than route position so the
+ * cascade stays correct after steps have been reordered.
  */
 export function useDeleteStep(): (stepId: string) => void {
   const route = useRoute();
   const { deleteSteps } = useRouteActions();
   const { setActiveStep } = useQuestActions();
+  const { transact } = useHistoryActions();
   const quests = useQuestStore((s) => s.quests);
 
   return (stepId: string) => {
-    const stepIndex = route.findIndex((s) => s.id === stepId);
-    if (stepIndex === -1) return;
+    const step = route.find((s) => s.id === stepId);
+    if (!step) return;
+
+    // Custom steps have no quest dependencies, so nothing cascades.
+    if (step.kind !== "quest") {
+      transact(`Delete step: ${step.description}`, () => deleteSteps([stepId]));
+      return;
+    }
 
-    const step = route[stepIndex] as QuestStep;
     const { questId } = step;
+    const quest = quests[questId];
+    const flatIndex = Math.max(0, getFlatIndex(quest, stepId));
 
     const idsToDelete = route
-      .slice(stepIndex)
       .filter((s): s is QuestStep => s.kind === "quest" && s.questId === questId)
+      .filter((s) => s.id === stepId || (!!quest && mustPrecede(quest, flatIndex, getFlatIndex(quest, s.id))))
       .map((s) => s.id);
 
-    const flatIndex = quests[questId]?.flatSteps.findIndex((s) => s.id === stepId) ?? 0;
-
-    deleteSteps(idsToDelete);
-    setActiveStep(questId, flatIndex);
+    transact(`Delete step: ${step.description}`, () => {
+      deleteSteps(idsToDelete);
+      setActiveStep(questId, flatIndex);
+    });
   };
 }
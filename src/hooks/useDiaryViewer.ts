@@ -0,0 +1,60 @@
+import { useEffect } from "react";
+import { useDiaryActions, useDiaryIndex, useSelectedDiary } from "../stores/diaryStore";
+import { useRoute, useRouteActions } from "../stores/routeStore";
+import { useHistoryActions } from "../stores/historyStore";
+import type { DiaryData, DiaryIndexEntry } from "../types/DiaryData";
+import { createDiaryStepFromTask } from "../factories/StepFactory";
+
+export interface DiaryViewerState {
+  entries: DiaryIndexEntry[];
+  diary: DiaryData | undefined;
+  openDiary: (name: string | null) => void;
+  isTaskInRoute: (taskIndex: number) => boolean;
+  handleAddTask: (taskIndex: number) => void;
+  /** Adds every task of the open tier that isn't in the route yet, in diary order. */
+  handleAddAll: () => void;
+  allTasksInRoute: boolean;
+}
+
+export function useDiaryViewer(): DiaryViewerState {
+  const entries = useDiaryIndex();
+  const diary = useSelectedDiary();
+  const { load, openDiary } = useDiaryActions();
+  const { appendRoute } = useRouteActions();
+  const { transact } = useHistoryActions();
+  const route = useRoute();
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const routeStepIds = new Set(route.map((s) => s.id));
+  const taskSteps = diary?.tasks.map((_, index) => createDiaryStepFromTask(diary, index)) ?? [];
+
+  const isTaskInRoute = (taskIndex: number): boolean => {
+    const step = taskSteps[taskIndex];
+    return !!step && routeStepIds.has(step.id);
+  };
+
+  const handleAddTask = (taskIndex: number): void => {
+    const step = taskSteps[taskIndex];
+    if (!diary || !step || routeStepIds.has(step.id)) return;
+    transact(`Add diary task: ${diary.name} – ${step.task}`, () => appendRoute(step));
+  };
+
+  const handleAddAll = (): void => {
+    const missing = taskSteps.filter((step) => !routeStepIds.has(step.id));
+    if (!diary || missing.length === 0) return;
+    transact(`Add all: ${diary.name} diary`, () => missing.forEach((step) => appendRoute(step)));
+  };
+
+  return {
+    entries,
+    diary,
+    openDiary,
+    isTaskInRoute,
+    handleAddTask,
+    handleAddAll,
+    allTasksInRoute: taskSteps.length > 0 && taskSteps.every((step) => routeStepIds.has(step.id)),
+  };
+}
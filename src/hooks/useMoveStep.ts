@@ -0,0 +1,51 @@
+import { moveItem, useRoute, useRouteActions } from "../stores/routeStore";
+import { useQuestStore } from "../stores/questStore";
+import { useHistoryActions } from "../stores/historyStore";
+import { findOrderViolation } from "../util/routeOrder";
+import { findPrerequisiteViolations } from "../util/questGraph";
+import { useQuestGraph } from "./useQuestGraph";
+
+/** Outcome of a move: `error` when it was refused, `warning` when it went ahead but broke a quest prerequisite. */
+export interface MoveStepResult {
+  error: string | null;
+  warning: string | null;
+}
+
+/**
+ * Returns a move handler for reordering the route. The move is refused when it
+ * would place a quest step before an earlier step it depends on (same panel,
+ * or anywhere in a sequential quest). Moves that start a quest before one of
+ * its prerequisite quests is finished are allowed but reported as a warning.
+ */
+export function useMoveStep(): (fromIndex: number, toIndex: number) => MoveStepResult {
+  const route = useRoute();
+  const { moveStep } = useRouteActions();
+  const { transact } = useHistoryActions();
+  const quests = useQuestStore((s) => s.quests);
+  const graph = useQuestGraph();
+
+  return (fromIndex: number, toIndex: number) => {
+    if (fromIndex === toIndex) return { error: null, warning: null };
+
+    const moved = moveItem(route, fromIndex, toIndex);
+    const violation = findOrderViolation(moved, quests);
+    if (violation) {
+      return {
+        error: `"${violation.step.description}" must come after "${violation.requires.description}" (${violation.step.questId}).`,
+        warning: null,
+      };
+    }
+
+    const key = (v: { quest: string; prerequisite: string }) => `${v.quest}\n${v.prerequisite}`;
+    const before = new Set(findPrerequisiteViolations(route, quests, graph).map(key));
+    const broken = findPrerequisiteViolations(moved, quests, graph).filter((v) => !before.has(key(v)));
+
+    transact(`Move step: ${route[fromIndex]?.description ?? ""}`, () => moveStep(fromIndex, toIndex));
+    return {
+      error: null,
+      warning: broken.length > 0
+        ? broken.map((v) => `${v.quest} now starts before ${v.prerequisite} is finished.`).join(" ")
+        : null,
+    };
+  };
+}
@@ -0,0 +1,9 @@
+import { useMemo } from "react";
+import { useQuestStore } from "../stores/questStore";
+import { buildQuestGraph, type QuestGraph } from "../util/questGraph";
+
+/** Dependency graph of all loaded quests, rebuilt when quests change. */
+export function useQuestGraph(): QuestGraph {
+  const quests = useQuestStore((s) => s.quests);
+  return useMemo(() => buildQuestGraph(quests), [quests]);
+}
@@ -1,11 +1,30 @@
-import { useState } from "react";
-import { useSelectedQuest, useQuestActions } from "../stores/questStore";
+import { useRef, useState } from "react";
+import { useSelectedQuest, useQuestActions, useQuestStore } from "../stores/questStore";
 import type { StoredQuest } from "../stores/questStore";
-import { useRoute, useRouteActions } from "../stores/routeStore";
+import { useRoute, useRouteActions, useRouteStore } from "../stores/routeStore";
+import { useHistoryActions } from "../stores/historyStore";
+import { useProfile } from "../stores/profileStore";
 import type { QuestStep } from "../types/Steps";
+import { useQuestIndexActions } from "../stores/questIndexStore";
+import { buildQuestGraph, collectPrerequisites } from "../util/questGraph";
+import { resolveBranchStep } from "../util/stepAlternatives";
 
 // ── Shared helpers ────────────────────────────────────────────────────────────
 
+/**
+ * Adds steps to the route given the route's step IDs and the quest's active
+ * step at the moment it runs, which can be later than the click that made it.
+ */
+type AddSteps = (routeStepIds: Set<string>, activeStep: number) => void;
+
+function currentRouteStepIds(): Set<string> {
+  return new Set(useRouteStore.getState().route.map((s) => s.id));
+}
+
+function currentActiveStep(questId: string): number {
+  return useQuestStore.getState().quests[questId]?.activeStep ?? 0;
+}
+
 function addStepsInRange(
   from: number,
   to: number,
@@ -108,6 +127,15 @@ function sequentialHandleAddPanel(
 
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Prerequisites missing when a quest's first steps are added, awaiting the user's choice. */
+export interface PendingPrerequisites {
+  quest: string;
+  /** Loaded quests that can be inserted, prerequisites first. */
+  insertable: string[];
+  /** Prerequisites with no quest data, which the user has to handle themselves. */
+  unavailable: string[];
+}
+
 export interface QuestViewerState {
   quest: StoredQuest | undefined;
   panelStartIndices: number[];
@@ -115,37 +143,44 @@ export interface QuestViewerState {
   setParallelPanels: (value: boolean) => void;
   hasStepsInRoute: boolean;
   isPanelFullyAdded: (panelStartIndex: number, panelEndIndex: number) => boolean;
-  isStepPast: (flatIndex: number, panelStartIndex: number) => boolean;
+  isStepPast: (flatIndex: number) => boolean;
   handleAddStep: (flatIndex: number, panelStartIndex: number) => void;
   handleAddPanel: (panelStartIndex: number, panelEndIndex: number) => void;
+  /** Like handleAddStep, but adds a ConditionalStep branch in place of the step at `flatIndex`. */
+  handleAddAlternative: (flatIndex: number, panelStartIndex: number, branch: number[]) => void;
   isQuestComplete: boolean;
   closeViewer: () => void;
+  pendingPrerequisites: PendingPrerequisites | null;
+  /** Finishes the pending add, inserting the missing prerequisites first when `insert` is true. */
+  resolvePrerequisites: (insert: boolean) => void;
+  cancelPrerequisites: () => void;
 }
 
 export function useQuestViewer(): QuestViewerState {
   const quest = useSelectedQuest();
-  const { setActiveStep, selectQuest } = useQuestActions();
+  const { setActiveStep, setParallelPanels: setQuestParallelPanels, selectQuest } = useQuestActions();
   const { appendRoute } = useRouteActions();
+  const { transact } = useHistoryActions();
   const route = useRoute();
+  const { loadWithPrerequisites } = useQuestIndexActions();
+  const profile = useProfile();
+  const [pending, setPending] = useState<{ label: string; add: AddSteps; prerequisites: PendingPrerequisites } | null>(null);
+  // Set while requestAdd waits for prerequisite quests to load, so repeated clicks are ignored.
+  const addingRef = useRef(false);
 
-  // Per-quest parallel setting keyed by quest name; defaults to true (parallel).
-  const [parallelPanelsByQuest, setParallelPanelsByQuest] = useState<Record<string, boolean>>({});
-
-  const questName = quest?.name ?? "";
-  const parallelPanels = parallelPanelsByQuest[questName] ?? true;
+  // Parallel setting lives on the stored quest so route ordering checks can read it.
+  const parallelPanels = quest?.parallelPanels ?? true;
 
   const setParallelPanels = (value: boolean) => {
-    setParallelPanelsByQuest((prev) => ({ ...prev, [questName]: value }));
+    if (!quest) return;
+    transact(`${quest.name}: ${value ? "parallel" : "sequential"} steps`, () =>
+      setQuestParallelPanels(quest.name, value)
+    );
   };
 
   const routeStepIds = new Set(route.map((s) => s.id));
 
-  const panelStartIndices = quest
-    ? quest.steps.reduce<number[]>((acc, _, idx) => {
-        acc.push(idx === 0 ? 0 : acc[idx - 1] + quest.steps[idx - 1].steps.length);
-        return acc;
-      }, [])
-    : [];
+  const panelStartIndices = quest?.panelStartIndices ?? [];
 
   const hasStepsInRoute = quest?.flatSteps.some((s) => routeStepIds.has(s.id)) ?? false;
 
@@ -158,29 +193,102 @@ export function useQuestViewer(): QuestViewerState {
       : activeStep > panelEndIndex;
   };
 
-  const isStepPast = (flatIndex: number, _panelStartIndex: number): boolean => {
+  const isStepPast = (flatIndex: number): boolean => {
     if (!quest) return false;
     return parallelPanels
       ? parallelIsPast(flatIndex, quest, routeStepIds)
       : flatIndex < activeStep;
   };
 
+  /**
+   * Runs `add` as one undo step. When it would start the quest while some
+   * prerequisites are neither completed nor in the route, the add is held
+   * until the user picks an option in the prerequisite prompt. Prerequisite
+   * quests are loaded first so they can be offered for insertion; clicks made
+   * while they load are ignored.
+   */
+  const requestAdd = async (label: string, add: AddSteps): Promise<void> => {
+    if (!quest || addingRef.current) return;
+    const questId = quest.name;
+    if (!quest.flatSteps.some((s) => currentRouteStepIds().has(s.id))) {
+      addingRef.current = true;
+      try {
+        await loadWithPrerequisites(questId);
+      } finally {
+        addingRef.current = false;
+      }
+      const graph = buildQuestGraph(useQuestStore.getState().quests);
+      const completed = new Set(profile.completedQuests.map((name) => name.toLowerCase()));
+      const route = useRouteStore.getState().route;
+      const questsInRoute = new Set(route.flatMap((step) => (step.kind === "quest" ? [step.questId] : [])));
+      const missing = collectPrerequisites(graph, questId, (name) => completed.has(name.toLowerCase()) || questsInRoute.has(name));
+      if (missing.length > 0) {
+        setPending({
+          label,
+          add,
+          prerequisites: {
+            quest: questId,
+            insertable: missing.filter((node) => node.loaded).map((node) => node.name),
+            unavailable: missing.filter((node) => !node.loaded).map((node) => node.name),
+          },
+        });
+        return;
+      }
+    }
+    transact(label, () => add(currentRouteStepIds(), currentActiveStep(questId)));
+  };
+
+  const resolvePrerequisites = (insert: boolean): void => {
+    if (!pending) return;
+    const { label, add, prerequisites } = pending;
+    setPending(null);
+    const loaded = useQuestStore.getState().quests;
+    const toInsert = insert ? prerequisites.insertable.map((name) => loaded[name]).filter(Boolean) : [];
+    transact(toInsert.length > 0 ? `${label} (+${toInsert.length} prerequisite${toInsert.length === 1 ? "" : "s"})` : label, () => {
+      for (const prerequisite of toInsert) {
+        addStepsInRange(0, prerequisite.flatSteps.length - 1, prerequisite, currentRouteStepIds(), appendRoute);
+        setActiveStep(prerequisite.name, prerequisite.flatSteps.length);
+      }
+      add(currentRouteStepIds(), currentActiveStep(prerequisites.quest));
+    });
+  };
+
   const handleAddStep = (flatIndex: number, panelStartIndex: number): void => {
     if (!quest) return;
-    if (parallelPanels) {
-      parallelHandleAddStep(flatIndex, panelStartIndex, quest, routeStepIds, appendRoute, setActiveStep);
-    } else {
-      sequentialHandleAddStep(flatIndex, activeStep, quest, routeStepIds, appendRoute, setActiveStep);
-    }
+    void requestAdd(`Add step: ${quest.flatSteps[flatIndex]?.description ?? quest.name}`, (routeStepIds, activeStep) => {
+      if (parallelPanels) {
+        parallelHandleAddStep(flatIndex, panelStartIndex, quest, routeStepIds, appendRoute, setActiveStep);
+      } else {
+        sequentialHandleAddStep(flatIndex, activeStep, quest, routeStepIds, appendRoute, setActiveStep);
+      }
+    });
+  };
+
+  const handleAddAlternative = (flatIndex: number, panelStartIndex: number, branch: number[]): void => {
+    if (!quest) return;
+    const step = quest.flatSteps[flatIndex];
+    const branchStep = step && resolveBranchStep(quest, step.id, branch);
+    if (!step || !branchStep) return;
+    const appendBranch = (s: QuestStep) => appendRoute(s.id === step.id ? branchStep : s);
+    void requestAdd(`Add step: ${branchStep.description}`, (routeStepIds, activeStep) => {
+      if (parallelPanels) {
+        parallelHandleAddStep(flatIndex, panelStartIndex, quest, routeStepIds, appendBranch, setActiveStep);
+      } else {
+        sequentialHandleAddStep(flatIndex, activeStep, quest, routeStepIds, appendBranch, setActiveStep);
+      }
+    });
   };
 
   const handleAddPanel = (panelStartIndex: number, panelEndIndex: number): void => {
     if (!quest) return;
-    if (parallelPanels) {
-      parallelHandleAddPanel(panelStartIndex, panelEndIndex, quest, routeStepIds, appendRoute, setActiveStep);
-    } else {
-      sequentialHandleAddPanel(panelStartIndex, panelEndIndex, activeStep, quest, routeStepIds, appendRoute, setActiveStep);
-    }
+    const panelIndex = panelStartIndices.indexOf(panelStartIndex);
+    void requestAdd(`Add all: ${quest.name} – ${quest.steps[panelIndex]?.panelName ?? "panel"}`, (routeStepIds, activeStep) => {
+      if (parallelPanels) {
+        parallelHandleAddPanel(panelStartIndex, panelEndIndex, quest, routeStepIds, appendRoute, setActiveStep);
+      } else {
+        sequentialHandleAddPanel(panelStartIndex, panelEndIndex, activeStep, quest, routeStepIds, appendRoute, setActiveStep);
+      }
+    });
   };
 
   const isQuestComplete = quest ? activeStep >= quest.flatSteps.length : false;
@@ -197,7 +305,11 @@ export function useQuestViewer(): QuestViewerState {
     isStepPast,
     handleAddStep,
     handleAddPanel,
+    handleAddAlternative,
     isQuestComplete,
     closeViewer,
+    pendingPrerequisites: pending?.prerequisites ?? null,
+    resolvePrerequisites,
+    cancelPrerequisites: () => setPending(null),
   };
 }
@@ -0,0 +1,59 @@
+import { useEffect, useMemo } from "react";
+import { useRoute } from "../stores/routeStore";
+import { useQuestStore } from "../stores/questStore";
+import { useTransportActions, useTransports } from "../stores/transportStore";
+import { useConditionalEdges, useConditionalEdgesLoaded, usePathActions, useWalkingPaths, type PathQuery } from "../stores/pathStore";
+import { computeRouteLegs, sumRouteLegs, type RouteLeg, type RouteTravelTotals } from "../util/travel";
+import { attachTravelPlans } from "../util/transportRouter";
+import { MAX_PATH_DISTANCE, usableEdgeIds, walkedTilesFrom } from "../util/pathfinding";
+import { meetsRequirements } from "../util/requirements";
+import { useRouteProgression } from "./useRouteRequirements";
+
+/**
+ * Travel estimates for each route step plus route totals; recomputed when the
+ * route changes. Legs short enough to walk are sent to the pathfinder, and
+ * their collision-map tile counts replace the straight-line distance as the
+ * results arrive. Searches only use the doors and gates the player can open
+ * at that point in the route. Each leg also gets the cheapest walking/transport plan once
+ * transport data has loaded, using only transports the player can use at that
+ * point in the route.
+ */
+export function useRouteLegs(): { legs: RouteLeg[]; totals: RouteTravelTotals } {
+  const route = useRoute();
+  const quests = useQuestStore((s) => s.quests);
+  const transports = useTransports();
+  const paths = useWalkingPaths();
+  const progression = useRouteProgression();
+  const { load } = useTransportActions();
+  const edges = useConditionalEdges();
+  const edgesLoaded = useConditionalEdgesLoaded();
+  const { loadEdges, requestPaths } = usePathActions();
+
+  useEffect(() => {
+    load();
+    loadEdges();
+  }, [load, loadEdges]);
+
+  const edgeIds = useMemo(() => progression.map((state) => usableEdgeIds(edges, state)), [edges, progression]);
+
+  const walkableQueries = useMemo(
+    () =>
+      computeRouteLegs(route, quests).flatMap((leg, index): PathQuery[] =>
+        leg.from && leg.worldpoint && leg.distance !== null && leg.distance > 0 && leg.distance <= MAX_PATH_DISTANCE
+          ? [{ from: leg.from, to: leg.worldpoint, edgeIds: edgeIds[index] ?? [] }]
+          : []
+      ),
+    [route, quests, edgeIds]
+  );
+
+  useEffect(() => {
+    if (edgesLoaded) requestPaths(walkableQueries);
+  }, [edgesLoaded, walkableQueries, requestPaths]);
+
+  return useMemo(() => {
+    const legs = attachTravelPlans(computeRouteLegs(route, quests, walkedTilesFrom(paths, (index) => edgeIds[index] ?? [])), transports, (index) => (transport) =>
+      meetsRequirements(transport.requirements, progression[index])
+    );
+    return { legs, totals: sumRouteLegs(legs) };
+  }, [route, quests, transports, paths, progression, edgeIds]);
+}
@@ -0,0 +1,65 @@
+import { useRouteLibraryActions, useRouteLibraryStore } from "../stores/routeLibraryStore";
+import { useHistoryStore } from "../stores/historyStore";
+import { captureRouteSnapshot, openSavedRoute } from "../util/routeSnapshot";
+
+export interface RouteManagerState {
+  switchRoute: (id: string) => void;
+  createRoute: (name: string) => void;
+  duplicateRoute: (id: string) => void;
+  deleteRoute: (id: string) => void;
+  renameRoute: (id: string, name: string) => void;
+}
+
+/** Saves the live route into its slot before any action that changes the active slot. */
+function saveActive(): void {
+  const { activeRouteId, actions } = useRouteLibraryStore.getState();
+  actions.saveRoute(activeRouteId, captureRouteSnapshot());
+}
+
+/** Loads the active slot; undo history belongs to the previous route so it is cleared. */
+function loadActive(): void {
+  const { routes, activeRouteId } = useRouteLibraryStore.getState();
+  const route = routes[activeRouteId];
+  if (route) openSavedRoute(route);
+  useHistoryStore.getState().actions.clear();
+}
+
+export function useRouteManager(): RouteManagerState {
+  const actions = useRouteLibraryActions();
+
+  const switchRoute = (id: string) => {
+    if (id === useRouteLibraryStore.getState().activeRouteId) return;
+    saveActive();
+    actions.setActiveRoute(id);
+    loadActive();
+  };
+
+  const createRoute = (name: string) => {
+    saveActive();
+    actions.setActiveRoute(actions.createRoute(name));
+    loadActive();
+  };
+
+  const duplicateRoute = (id: string) => {
+    saveActive();
+    const copyId = actions.duplicateRoute(id);
+    if (copyId) {
+      actions.setActiveRoute(copyId);
+      loadActive();
+    }
+  };
+
+  const deleteRoute = (id: string) => {
+    const previousActive = useRouteLibraryStore.getState().activeRouteId;
+    actions.deleteRoute(id);
+    if (id === previousActive) loadActive();
+  };
+
+  return {
+    switchRoute,
+    createRoute,
+    duplicateRoute,
+    deleteRoute,
+    renameRoute: actions.renameRoute,
+  };
+}
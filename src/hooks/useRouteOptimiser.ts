@@ -0,0 +1,117 @@
+import { useEffect, useRef, useState } from "react";
+import { useRouteActions, useRouteStore } from "../stores/routeStore";
+import { useQuestStore } from "../stores/questStore";
+import { useHistoryActions } from "../stores/historyStore";
+import { useTransportStore } from "../stores/transportStore";
+import { useProfileStore } from "../stores/profileStore";
+import { usePathStore } from "../stores/pathStore";
+import type { Step } from "../types/Steps";
+import { buildOptimiserInput, type OptimiserResult } from "../util/routeOptimiser";
+import { findOrderViolation } from "../util/routeOrder";
+import { computeRouteLegs, sumRouteLegs, type RouteTravelTotals } from "../util/travel";
+import { attachTravelPlans } from "../util/transportRouter";
+import { computeRouteProgression, meetsRequirements } from "../util/requirements";
+import { usableEdgeIds, walkedTilesFrom } from "../util/pathfinding";
+
+export interface RouteOptimisation {
+  /** Route the optimiser started from; accepting is refused if the route has changed since. */
+  source: Step[];
+  steps: Step[];
+  before: RouteTravelTotals;
+  after: RouteTravelTotals;
+  changed: boolean;
+}
+
+export type RouteOptimiserStatus = "idle" | "running" | "done" | "error";
+
+/**
+ * Runs the route optimiser in a web worker and holds the proposed order until
+ * it is accepted (one undo entry) or rejected.
+ */
+export function useRouteOptimiser() {
+  const { setRoute } = useRouteActions();
+  const { transact } = useHistoryActions();
+  const workerRef = useRef<Worker | null>(null);
+  const [status, setStatus] = useState<RouteOptimiserStatus>("idle");
+  const [proposal, setProposal] = useState<RouteOptimisation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  };
+
+  useEffect(() => stopWorker, []);
+
+  const optimise = () => {
+    stopWorker();
+    const route = useRouteStore.getState().route;
+    const quests = useQuestStore.getState().quests;
+    const transports = useTransportStore.getState().transports;
+    const profile = useProfileStore.getState().profile;
+    const { paths, edges } = usePathStore.getState();
+    // Same estimate as the Route panel; legs new to the optimised order fall back to straight lines.
+    const totalsFor = (steps: Step[]) => {
+      const progression = computeRouteProgression(steps, quests, profile);
+      const walkedTiles = walkedTilesFrom(paths, (index) => usableEdgeIds(edges, progression[index]));
+      const legs = attachTravelPlans(computeRouteLegs(steps, quests, walkedTiles), transports, (index) => (transport) =>
+        meetsRequirements(transport.requirements, progression[index])
+      );
+      return sumRouteLegs(legs);
+    };
+
+    const worker = new Worker(new URL("../workers/routeOptimiser.worker.ts", import.meta.url), { type: "module" });
+    workerRef.current = worker;
+    setStatus("running");
+    setProposal(null);
+    setError(null);
+
+    worker.onmessage = (event: MessageEvent<OptimiserResult>) => {
+      stopWorker();
+      const steps = event.data.order.map((index) => route[index]);
+      if (findOrderViolation(steps, quests)) {
+        setStatus("error");
+        setError("The optimiser produced an order that breaks a quest's step order.");
+        return;
+      }
+      setProposal({
+        source: route,
+        steps,
+        before: totalsFor(route),
+        after: totalsFor(steps),
+        changed: steps.some((step, index) => step !== route[index]),
+      });
+      setStatus("done");
+    };
+    worker.onerror = (event) => {
+      stopWorker();
+      console.error("Route optimiser failed:", event.message);
+      setStatus("error");
+      setError(event.message || "The optimiser failed.");
+    };
+
+    worker.postMessage(buildOptimiserInput(route, quests));
+  };
+
+  const accept = () => {
+    if (!proposal) return;
+    if (useRouteStore.getState().route !== proposal.source) {
+      setStatus("error");
+      setError("The route changed while optimising. Run the optimiser again.");
+      setProposal(null);
+      return;
+    }
+    transact("Optimise route order", () => setRoute(proposal.steps));
+    setProposal(null);
+    setStatus("idle");
+  };
+
+  const dismiss = () => {
+    stopWorker();
+    setProposal(null);
+    setError(null);
+    setStatus("idle");
+  };
+
+  return { status, proposal, error, optimise, accept, dismiss };
+}
@@ -0,0 +1,46 @@
+import { useEffect } from "react";
+import { useRouteStore } from "../stores/routeStore";
+import { useQuestStore } from "../stores/questStore";
+import { useRouteLibraryStore } from "../stores/routeLibraryStore";
+import { captureRouteSnapshot, openSavedRoute } from "../util/routeSnapshot";
+
+const SAVE_DELAY_MS = 300;
+
+/**
+ * Restores the active saved route once quest data is loaded, then keeps the
+ * active save slot in sync with routeStore and questStore.
+ *
+ * `ready` must only become true after every quest referenced by saved routes
+ * has been added to questStore, otherwise restored progress is dropped.
+ */
+export function useRoutePersistence(ready: boolean): void {
+  useEffect(() => {
+    if (!ready) return;
+
+    const { routes, activeRouteId } = useRouteLibraryStore.getState();
+    const active = routes[activeRouteId];
+    if (active) openSavedRoute(active);
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const scheduleSave = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        const { activeRouteId, actions } = useRouteLibraryStore.getState();
+        actions.saveRoute(activeRouteId, captureRouteSnapshot());
+      }, SAVE_DELAY_MS);
+    };
+
+    const unsubscribeRoute = useRouteStore.subscribe((state, prev) => {
+      if (state.route !== prev.route) scheduleSave();
+    });
+    const unsubscribeQuests = useQuestStore.subscribe((state, prev) => {
+      if (state.quests !== prev.quests) scheduleSave();
+    });
+
+    return () => {
+      clearTimeout(timeout);
+      unsubscribeRoute();
+      unsubscribeQuests();
+    };
+  }, [ready]);
+}
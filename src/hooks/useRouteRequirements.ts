@@ -0,0 +1,26 @@
+import { useMemo } from "react";
+import { useRoute } from "../stores/routeStore";
+import { useQuestStore } from "../stores/questStore";
+import { useProfile } from "../stores/profileStore";
+import {
+  computeRouteProgression,
+  findRouteRequirementIssues,
+  type PlayerState,
+  type RequirementIssue,
+} from "../util/requirements";
+
+/** Player state before each route step and after the last, starting from the saved profile. */
+export function useRouteProgression(): PlayerState[] {
+  const route = useRoute();
+  const quests = useQuestStore((s) => s.quests);
+  const profile = useProfile();
+  return useMemo(() => computeRouteProgression(route, quests, profile), [route, quests, profile]);
+}
+
+/** Unmet quest requirements keyed by the route step that starts each quest. */
+export function useRouteRequirements(): Record<string, RequirementIssue[]> {
+  const route = useRoute();
+  const quests = useQuestStore((s) => s.quests);
+  const progression = useRouteProgression();
+  return useMemo(() => findRouteRequirementIssues(route, quests, progression), [route, quests, progression]);
+}
@@ -0,0 +1,69 @@
+import { useQuestStore } from "../stores/questStore";
+import { useRouteLibraryStore } from "../stores/routeLibraryStore";
+import { useQuestIndexStore } from "../stores/questIndexStore";
+import type { RouteImportIssue } from "../types/RouteFile";
+import { createRouteFile, downloadRouteFile, parseRouteFile, reconcileRouteFile } from "../util/routeFile";
+import { clearRouteLink, decodeRouteLink, hasRouteLink, encodeRouteLink, resolveRouteLink } from "../util/routeLink";
+import { applyRouteSnapshot, captureRouteSnapshot, referencedQuestIds } from "../util/routeSnapshot";
+import { useRouteManager } from "./useRouteManager";
+
+export type RouteImportReport =
+  | { ok: true; name: string; stepCount: number; issues: RouteImportIssue[] }
+  | { ok: false; error: string };
+
+export interface RouteTransferState {
+  exportRoute: () => void;
+  /** Imports into a new save slot so the current route is never overwritten. */
+  importRoute: (file: File) => Promise<RouteImportReport>;
+  /** Returns a link that reproduces the current route. */
+  shareRoute: () => Promise<string>;
+  /** Imports the route encoded in the current URL, if any, into a new save slot. */
+  importRouteLink: () => Promise<RouteImportReport | null>;
+}
+
+function activeRouteName(): string {
+  const { routes, activeRouteId } = useRouteLibraryStore.getState();
+  return routes[activeRouteId]?.name ?? "Route";
+}
+
+export function useRouteTransfer(): RouteTransferState {
+  const { createRoute } = useRouteManager();
+
+  const exportRoute = () => {
+    downloadRouteFile(createRouteFile(activeRouteName(), captureRouteSnapshot()));
+  };
+
+  const importRoute = async (file: File): Promise<RouteImportReport> => {
+    const parsed = parseRouteFile(await file.text());
+    if (!parsed.ok) return parsed;
+
+    await useQuestIndexStore.getState().actions.loadQuests(referencedQuestIds(parsed.file.steps, parsed.file.quests));
+    const { snapshot, issues } = reconcileRouteFile(parsed.file, useQuestStore.getState().quests);
+    createRoute(parsed.file.name);
+    applyRouteSnapshot(snapshot);
+
+    return {
+      ok: true,
+      name: parsed.file.name,
+      stepCount: snapshot.steps.length,
+      issues: [...parsed.issues, ...issues],
+    };
+  };
+
+  const shareRoute = () => encodeRouteLink(activeRouteName(), captureRouteSnapshot());
+
+  const importRouteLink = async (): Promise<RouteImportReport | null> => {
+    if (!hasRouteLink(window.location.hash)) return null;
+    const payload = await decodeRouteLink(window.location.hash);
+    clearRouteLink();
+    if (!payload) return { ok: false, error: "The shared route link is damaged or from an incompatible version." };
+
+    await useQuestIndexStore.getState().actions.loadQuests(payload.q);
+    const { name, snapshot, issues } = resolveRouteLink(payload, useQuestStore.getState().quests);
+    createRoute(name);
+    applyRouteSnapshot(snapshot);
+    return { ok: true, name, stepCount: snapshot.steps.length, issues };
+  };
+
+  return { exportRoute, importRoute, shareRoute, importRouteLink };
+}
@@ -0,0 +1,27 @@
+import { useEffect, useRef, useState } from "react";
+import { useRouteTransfer, type RouteImportReport } from "./useRouteTransfer";
+
+/**
+ * Imports a route shared through the URL fragment once quest data is ready.
+ *
+ * Must be called after useRoutePersistence so the shared route lands in its
+ * own new save slot rather than being replaced by the restored active slot.
+ */
+export function useSharedRouteLink(ready: boolean): { report: RouteImportReport | null; dismiss: () => void } {
+  const { importRouteLink } = useRouteTransfer();
+  const [report, setReport] = useState<RouteImportReport | null>(null);
+  const handledRef = useRef(false);
+
+  useEffect(() => {
+    if (!ready || handledRef.current) return;
+    handledRef.current = true;
+    importRouteLink()
+      .then(setReport)
+      .catch((error) => {
+        console.error("Failed to import shared route link:", error);
+        setReport({ ok: false, error: "The shared route link is invalid and could not be opened." });
+      });
+  }, [ready, importRouteLink]);
+
+  return { report, dismiss: () => setReport(null) };
+}
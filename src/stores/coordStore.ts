@@ -3,17 +3,24 @@ import { leafletToWorldPoint, type WorldPoint } from "../util/Coordinates";
 
 interface CoordStoreState {
   coords: WorldPoint;
+  /** Plane whose tiles are shown; hovered coordinates are reported on this plane. */
+  plane: number;
   actions: {
     setCoords: (raw: L.LatLng) => void;
+    setPlane: (plane: number) => void;
   };
 }
 
 export const useCoordStore = create<CoordStoreState>((set) => ({
   coords: { x: 0, y: 0, plane: 0 },
+  plane: 0,
   actions: {
-    setCoords: (raw) => set({ coords: leafletToWorldPoint(raw.lat, raw.lng, 0) }),
+    setCoords: (raw) => set((state) => ({ coords: leafletToWorldPoint(raw.lat, raw.lng, state.plane) })),
+    setPlane: (plane) => set((state) => ({ plane, coords: { ...state.coords, plane } })),
   },
 }));
 
 export const useCoords = () => useCoordStore((state) => state.coords);
-export const useCoordsStoreActions = () => useCoordStore((state) => state.actions);
\ No newline at end of file
+/** Current plane only, so map layers don't re-render on every mouse move. */
+export const useCurrentPlane = () => useCoordStore((state) => state.plane);
+export const useCoordsStoreActions = () => useCoordStore((state) => state.actions);
@@ -0,0 +1,67 @@
+import { create } from "zustand";
+import type { DiaryData, DiaryIndex, DiaryIndexEntry } from "../types/DiaryData";
+
+export type DiaryStatus = "idle" | "loading" | "ready" | "error";
+
+interface DiaryState {
+  entries: DiaryIndexEntry[];
+  /** Loaded diary tiers, keyed by DiaryData.name. */
+  diaries: Record<string, DiaryData>;
+  status: DiaryStatus;
+  error: string | null;
+  /** Tier shown in DiaryViewer. */
+  selectedDiaryId: string | null;
+  actions: {
+    /** Fetches /data/diaries/index.json once; later calls are no-ops unless the last load failed. */
+    load: () => Promise<void>;
+    /** Fetches a diary tier if it isn't loaded yet and shows it in DiaryViewer; null clears the selection. */
+    openDiary: (name: string | null) => Promise<void>;
+  };
+}
+
+export const useDiaryStore = create<DiaryState>((set, get) => ({
+  entries: [],
+  diaries: {},
+  status: "idle",
+  error: null,
+  selectedDiaryId: null,
+  actions: {
+    load: async () => {
+      const { status } = get();
+      if (status === "loading" || status === "ready") return;
+      set({ status: "loading", error: null });
+      try {
+        const response = await fetch("/data/diaries/index.json");
+        if (!response.ok) throw new Error(`Failed to load diary index: ${response.statusText}`);
+        const index: DiaryIndex = await response.json();
+        set({ entries: index.diaries, status: "ready" });
+      } catch (error) {
+        console.error("Failed to load diary index:", error);
+        set({ status: "error", error: error instanceof Error ? error.message : String(error) });
+      }
+    },
+    openDiary: async (name) => {
+      if (name === null || get().diaries[name]) {
+        set({ selectedDiaryId: name });
+        return;
+      }
+      const entry = get().entries.find((e) => e.name === name);
+      if (!entry) return;
+      try {
+        const response = await fetch(`/data/diaries/${entry.file}`);
+        if (!response.ok) throw new Error(`Failed to load ${entry.file}: ${response.statusText}`);
+        const diary: DiaryData = await response.json();
+        set((state) => ({ diaries: { ...state.diaries, [diary.name]: diary }, selectedDiaryId: diary.name }));
+      } catch (error) {
+        console.error(`Failed to load diary ${name}:`, error);
+      }
+    },
+  },
+}));
+
+export const useDiaryActions = () => useDiaryStore((state) => state.actions);
+
+export const useDiaryIndex = () => useDiaryStore((state) => state.entries);
+
+export const useSelectedDiary = () =>
+  useDiaryStore((state) => (state.selectedDiaryId ? state.diaries[state.selectedDiaryId] : undefined));
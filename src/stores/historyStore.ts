@@ -0,0 +1,109 @@
+import { create } from "zustand";
+import { useShallow } from "zustand/react/shallow";
+import type { RouteSnapshot } from "../types/SavedRoute";
+import { applyRouteSnapshot, captureRouteSnapshot } from "../util/routeSnapshot";
+
+/** Oldest entries are dropped beyond this many undo steps. */
+const MAX_HISTORY = 100;
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  before: RouteSnapshot;
+  after: RouteSnapshot;
+}
+
+interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  actions: {
+    /**
+     * Runs `fn` as one undoable entry covering routeStore and questStore.
+     * Nested calls fold into the outermost transaction.
+     */
+    transact: (label: string, fn: () => void) => void;
+    undo: () => void;
+    redo: () => void;
+    /** Undo or redo until `entryId` is the most recent applied entry (null = before everything). */
+    jumpTo: (entryId: number | null) => void;
+    clear: () => void;
+  };
+}
+
+let transactionDepth = 0;
+let nextEntryId = 1;
+
+function sameSnapshot(a: RouteSnapshot, b: RouteSnapshot): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export const useHistoryStore = create<HistoryState>((set, get) => ({
+  past: [],
+  future: [],
+  actions: {
+    transact: (label, fn) => {
+      if (transactionDepth > 0) {
+        fn();
+        return;
+      }
+
+      const before = captureRouteSnapshot();
+      transactionDepth++;
+      try {
+        fn();
+      } finally {
+        transactionDepth--;
+      }
+      const after = captureRouteSnapshot();
+      if (sameSnapshot(before, after)) return;
+
+      const entry: HistoryEntry = { id: nextEntryId++, label, before, after };
+      set((state) => ({
+        past: [...state.past, entry].slice(-MAX_HISTORY),
+        future: [],
+      }));
+    },
+    undo: () => {
+      const entry = get().past.at(-1);
+      if (!entry) return;
+      applyRouteSnapshot(entry.before);
+      set((state) => ({
+        past: state.past.slice(0, -1),
+        future: [entry, ...state.future],
+      }));
+    },
+    redo: () => {
+      const entry = get().future[0];
+      if (!entry) return;
+      applyRouteSnapshot(entry.after);
+      set((state) => ({
+        past: [...state.past, entry],
+        future: state.future.slice(1),
+      }));
+    },
+    jumpTo: (entryId) => {
+      const { past, future, actions } = get();
+      if (entryId === null) {
+        past.forEach(() => actions.undo());
+        return;
+      }
+      const pastIndex = past.findIndex((e) => e.id === entryId);
+      if (pastIndex !== -1) {
+        for (let i = past.length - 1; i > pastIndex; i--) actions.undo();
+        return;
+      }
+      const futureIndex = future.findIndex((e) => e.id === entryId);
+      for (let i = 0; i <= futureIndex; i++) actions.redo();
+    },
+    clear: () => set({ past: [], future: [] }),
+  },
+}));
+
+export const useHistoryActions = () => useHistoryStore((state) => state.actions);
+
+export function useHistoryEntries(): { past: HistoryEntry[]; future: HistoryEntry[] } {
+  return useHistoryStore(useShallow((s) => ({ past: s.past, future: s.future })));
+}
+
+export const useCanUndo = () => useHistoryStore((s) => s.past.length > 0);
+export const useCanRedo = () => useHistoryStore((s) => s.future.length > 0);
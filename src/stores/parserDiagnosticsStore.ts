@@ -0,0 +1,60 @@
+import { create } from "zustand";
+import type { ParserDiagnosticsReport } from "../types/ParserDiagnostics";
+
+export type ParserDiagnosticsStatus = "idle" | "loading" | "ready" | "error";
+
+/** Which parser run a report comes from; each writes its own file. */
+export type ParserDiagnosticsSource = "quests" | "diaries";
+
+const REPORT_URLS: Record<ParserDiagnosticsSource, string> = {
+  quests: "/data/parser-diagnostics.json",
+  diaries: "/data/diaries/parser-diagnostics.json",
+};
+
+interface ParserDiagnosticsState {
+  /** Null when that run's report hasn't been generated. */
+  reports: Record<ParserDiagnosticsSource, ParserDiagnosticsReport | null>;
+  status: ParserDiagnosticsStatus;
+  error: string | null;
+  actions: {
+    /** Fetches both reports once; later calls are no-ops unless neither could be loaded. */
+    load: () => Promise<void>;
+  };
+}
+
+async function fetchReport(source: ParserDiagnosticsSource): Promise<ParserDiagnosticsReport | null> {
+  try {
+    const response = await fetch(REPORT_URLS[source]);
+    if (!response.ok) throw new Error(`Failed to load ${source} parser diagnostics: ${response.statusText}`);
+    return (await response.json()) as ParserDiagnosticsReport;
+  } catch (error) {
+    console.error(`Failed to load ${source} parser diagnostics:`, error);
+    return null;
+  }
+}
+
+export const useParserDiagnosticsStore = create<ParserDiagnosticsState>((set, get) => ({
+  reports: { quests: null, diaries: null },
+  status: "idle",
+  error: null,
+  actions: {
+    load: async () => {
+      const { status } = get();
+      if (status === "loading" || status === "ready") return;
+      set({ status: "loading", error: null });
+      const [quests, diaries] = await Promise.all([fetchReport("quests"), fetchReport("diaries")]);
+      if (!quests && !diaries) {
+        set({ status: "error", error: "No parser diagnostics report found" });
+        return;
+      }
+      set({ reports: { quests, diaries }, status: "ready" });
+    },
+  },
+}));
+
+export const useParserDiagnosticsActions = () => useParserDiagnosticsStore((state) => state.actions);
+
+export const useParserDiagnostics = (source: ParserDiagnosticsSource) =>
+  useParserDiagnosticsStore((state) => state.reports[source]);
+
+export const useParserDiagnosticsStatus = () => useParserDiagnosticsStore((state) => state.status);
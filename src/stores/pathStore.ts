@@ -0,0 +1,111 @@
+import { create } from "zustand";
+import type { WorldPoint } from "../types/QuestData";
+import type { ConditionalEdge, ConditionalEdgeData, PathRequest, PathResponse } from "../types/Collision";
+import { pathKey } from "../util/pathfinding";
+
+export type PathfindingStatus = "idle" | "loading" | "ready" | "unavailable";
+
+/** One walking search: only the conditional edges in `edgeIds` may be used. */
+export interface PathQuery {
+  from: WorldPoint;
+  to: WorldPoint;
+  edgeIds: string[];
+}
+
+interface PathState {
+  /** Finished searches keyed by pathKey(from, to, edgeIds). */
+  paths: Record<string, PathResponse>;
+  /** "unavailable" once the worker reports that no collision data has been built. */
+  status: PathfindingStatus;
+  /** Every conditional door and gate; a search only gets the ones its player state can open. */
+  edges: ConditionalEdge[];
+  /** True once doors.json has been fetched (or failed to); queries made before then would miss its edges. */
+  edgesLoaded: boolean;
+  actions: {
+    /** Fetches doors.json once; later calls are no-ops. */
+    loadEdges: () => Promise<void>;
+    /** Queues searches for queries that haven't been requested yet. */
+    requestPaths: (queries: PathQuery[]) => void;
+  };
+}
+
+let worker: Worker | null = null;
+let workerReady: Promise<void> | null = null;
+const pending = new Set<string>();
+let edgesRequest: Promise<void> | null = null;
+
+async function loadEdges(): Promise<ConditionalEdge[]> {
+  try {
+    const response = await fetch("/data/collision/doors.json");
+    if (!response.ok) return [];
+    const data: ConditionalEdgeData = await response.json();
+    return Array.isArray(data.edges) ? data.edges : [];
+  } catch {
+    return [];
+  }
+}
+
+export const usePathStore = create<PathState>((set, get) => {
+  const startWorker = async () => {
+    set({ status: "loading" });
+    worker = new Worker(new URL("../workers/pathfinder.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<PathResponse>) => {
+      const response = event.data;
+      pending.delete(response.key);
+      if (response.status === "unavailable") {
+        worker?.terminate();
+        worker = null;
+        pending.clear();
+        set({ status: "unavailable" });
+        return;
+      }
+      set((state) => ({ status: "ready", paths: { ...state.paths, [response.key]: response } }));
+    };
+  };
+
+  const post = ({ from, to, edgeIds }: PathQuery) => {
+    const usable = new Set(edgeIds);
+    worker?.postMessage({
+      key: pathKey(from, to, edgeIds),
+      from,
+      to,
+      edges: get().edges.filter((edge) => usable.has(edge.id)),
+    } satisfies PathRequest);
+  };
+
+  return {
+    paths: {},
+    status: "idle",
+    edges: [],
+    edgesLoaded: false,
+    actions: {
+      loadEdges: () => {
+        edgesRequest ??= loadEdges().then((edges) => set({ edges, edgesLoaded: true }));
+        return edgesRequest;
+      },
+      requestPaths: (queries) => {
+        const { status, paths } = get();
+        if (status === "unavailable") return;
+        const missing = queries.filter(({ from, to, edgeIds }) => {
+          const key = pathKey(from, to, edgeIds);
+          return !paths[key] && !pending.has(key);
+        });
+        if (missing.length === 0) return;
+        missing.forEach(({ from, to, edgeIds }) => pending.add(pathKey(from, to, edgeIds)));
+
+        workerReady ??= startWorker();
+        workerReady.then(() => missing.forEach(post));
+      },
+    },
+  };
+});
+
+export const usePathActions = () => usePathStore((state) => state.actions);
+
+export const useWalkingPaths = () => usePathStore((state) => state.paths);
+
+export const usePathfindingStatus = () => usePathStore((state) => state.status);
+
+export const useConditionalEdges = () => usePathStore((state) => state.edges);
+
+export const useConditionalEdgesLoaded = () => usePathStore((state) => state.edgesLoaded);
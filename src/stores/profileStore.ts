@@ -0,0 +1,85 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { PlayerProfile } from "../types/PlayerProfile";
+import { Skill } from "../types/QuestData";
+
+const STORAGE_KEY = "osrs-route-builder:profile";
+const PROFILE_VERSION = 1;
+
+/** A fresh account: every skill at 1 except Hitpoints at 10. */
+export function createDefaultProfile(): PlayerProfile {
+  const levels = Object.fromEntries(Object.values(Skill).map((skill) => [skill, 1])) as PlayerProfile["levels"];
+  levels.HITPOINTS = 10;
+  return { levels, completedQuests: [], questPoints: 0, bankedItems: [] };
+}
+
+interface ProfileState {
+  profile: PlayerProfile;
+  actions: {
+    setLevel: (skill: Skill, level: number) => void;
+    /** Overwrites only the skills present in `levels`. */
+    setLevels: (levels: Partial<Record<Skill, number>>) => void;
+    setCompletedQuests: (quests: string[]) => void;
+    setQuestPoints: (questPoints: number) => void;
+    setItemBanked: (item: string, banked: boolean) => void;
+    reset: () => void;
+  };
+}
+
+function clampLevel(level: number): number {
+  return Math.max(1, Math.min(99, Math.round(level)));
+}
+
+export const useProfileStore = create<ProfileState>()(
+  persist(
+    (set) => ({
+      profile: createDefaultProfile(),
+      actions: {
+        setLevel: (skill, level) =>
+          set((state) => ({
+            profile: { ...state.profile, levels: { ...state.profile.levels, [skill]: clampLevel(level) } },
+          })),
+        setLevels: (levels) =>
+          set((state) => {
+            const next = { ...state.profile.levels };
+            for (const [skill, level] of Object.entries(levels) as [Skill, number][]) next[skill] = clampLevel(level);
+            return { profile: { ...state.profile, levels: next } };
+          }),
+        setCompletedQuests: (completedQuests) =>
+          set((state) => ({ profile: { ...state.profile, completedQuests } })),
+        setQuestPoints: (questPoints) =>
+          set((state) => ({ profile: { ...state.profile, questPoints: Math.max(0, Math.round(questPoints)) } })),
+        setItemBanked: (item, banked) =>
+          set((state) => {
+            const others = state.profile.bankedItems.filter((name) => name !== item);
+            return { profile: { ...state.profile, bankedItems: banked ? [...others, item] : others } };
+          }),
+        reset: () => set({ profile: createDefaultProfile() }),
+      },
+    }),
+    {
+      name: STORAGE_KEY,
+      version: PROFILE_VERSION,
+      partialize: ({ profile }) => ({ profile }),
+      // Skills and fields added after the profile was saved (e.g. Sailing) fall back to the defaults.
+      merge: (persisted, current) => {
+        const saved = (persisted as { profile?: Partial<PlayerProfile> } | undefined)?.profile;
+        if (!saved) return current;
+        const defaults = createDefaultProfile();
+        return {
+          ...current,
+          profile: {
+            levels: { ...defaults.levels, ...saved.levels },
+            completedQuests: Array.isArray(saved.completedQuests) ? saved.completedQuests : [],
+            questPoints: typeof saved.questPoints === "number" ? saved.questPoints : 0,
+            bankedItems: Array.isArray(saved.bankedItems) ? saved.bankedItems : [],
+          },
+        };
+      },
+    }
+  )
+);
+
+export const useProfileActions = () => useProfileStore((state) => state.actions);
+
+export const useProfile = () => useProfileStore((state) => state.profile);
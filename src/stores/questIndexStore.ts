@@ -0,0 +1,112 @@
+import { create } from "zustand";
+import type { QuestData } from "../types/QuestData";
+import type { QuestIndex, QuestIndexEntry } from "../types/QuestIndex";
+import { useQuestStore } from "./questStore";
+
+export type QuestIndexStatus = "idle" | "loading" | "ready" | "error";
+
+interface QuestIndexState {
+  entries: QuestIndexEntry[];
+  status: QuestIndexStatus;
+  error: string | null;
+  /** Quest names whose files are being fetched. */
+  loadingQuests: string[];
+  actions: {
+    /** Fetches /data/quest-index.json once; later calls are no-ops unless the last load failed. */
+    load: () => Promise<void>;
+    /**
+     * Adds the named quests to questStore, fetching any not loaded yet. Names
+     * are matched case-insensitively; names missing from the index are skipped.
+     */
+    loadQuests: (names: string[]) => Promise<void>;
+    /** Loads a quest, along with every quest it requires, directly or not. */
+    loadWithPrerequisites: (name: string) => Promise<void>;
+    /** Loads a quest and opens it in QuestViewer. */
+    openQuest: (name: string) => Promise<void>;
+  };
+}
+
+/** In-flight quest fetches, so concurrent callers share one request per file. */
+const pending = new Map<string, Promise<void>>();
+
+export const useQuestIndexStore = create<QuestIndexState>((set, get) => {
+  const findEntry = (name: string) => {
+    const key = name.trim().toLowerCase();
+    return get().entries.find((entry) => entry.name.toLowerCase() === key);
+  };
+
+  const fetchQuest = (entry: QuestIndexEntry): Promise<void> => {
+    const existing = pending.get(entry.name);
+    if (existing) return existing;
+
+    set((state) => ({ loadingQuests: [...state.loadingQuests, entry.name] }));
+    const request = fetch(`/data/quests/${entry.file}`)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Failed to load ${entry.file}: ${response.statusText}`);
+        return response.json() as Promise<QuestData>;
+      })
+      .then((quest) => useQuestStore.getState().actions.addQuest(quest))
+      .catch((error) => console.error(`Failed to load quest ${entry.name}:`, error))
+      .finally(() => {
+        pending.delete(entry.name);
+        set((state) => ({ loadingQuests: state.loadingQuests.filter((name) => name !== entry.name) }));
+      });
+    pending.set(entry.name, request);
+    return request;
+  };
+
+  return {
+    entries: [],
+    status: "idle",
+    error: null,
+    loadingQuests: [],
+    actions: {
+      load: async () => {
+        const { status } = get();
+        if (status === "loading" || status === "ready") return;
+        set({ status: "loading", error: null });
+        try {
+          const response = await fetch("/data/quest-index.json");
+          if (!response.ok) throw new Error(`Failed to load quest index: ${response.statusText}`);
+          const index: QuestIndex = await response.json();
+          set({ entries: index.quests, status: "ready" });
+        } catch (error) {
+          console.error("Failed to load quest index:", error);
+          set({ status: "error", error: error instanceof Error ? error.message : String(error) });
+        }
+      },
+      loadQuests: async (names) => {
+        const loaded = useQuestStore.getState().quests;
+        const entries = names.map(findEntry).filter((entry): entry is QuestIndexEntry => !!entry && !loaded[entry.name]);
+        await Promise.all(entries.map(fetchQuest));
+      },
+      loadWithPrerequisites: async (name) => {
+        const visited = new Set<string>();
+        let frontier = [name];
+        while (frontier.length > 0) {
+          await get().actions.loadQuests(frontier);
+          frontier.forEach((n) => visited.add(n.toLowerCase()));
+          const quests = useQuestStore.getState().quests;
+          frontier = frontier
+            .flatMap((n) => quests[findEntry(n)?.name ?? n]?.questRequirements ?? [])
+            .filter((n) => !visited.has(n.toLowerCase()));
+        }
+      },
+      openQuest: async (name) => {
+        await get().actions.loadQuests([name]);
+        const entry = findEntry(name);
+        if (entry && useQuestStore.getState().quests[entry.name]) {
+          useQuestStore.getState().actions.selectQuest(entry.name);
+        }
+      },
+    },
+  };
+});
+
+export const useQuestIndexActions = () => useQuestIndexStore((state) => state.actions);
+
+export const useQuestIndex = () => useQuestIndexStore((state) => state.entries);
+
+export const useQuestIndexStatus = () => useQuestIndexStore((state) => state.status);
+
+export const useLoadingQuests = () => useQuestIndexStore((state) => state.loadingQuests);
@@ -1,23 +1,47 @@
 import { create } from "zustand";
 import { useShallow } from "zustand/react/shallow";
-import type { QuestData } from "../types/QuestData";
+import type { QuestData, Skill } from "../types/QuestData";
 import type { QuestStep } from "../types/Steps";
-import { createQuestStepFromRaw } from "../factories/StepFactory";
+import type { QuestProgress } from "../types/SavedRoute";
+import { createQuestStepFromRaw, rawStepKey } from "../factories/StepFactory";
+import { findStepWorldPoint } from "../util/travel";
 
-/** Flatten and hydrate raw steps into QuestSteps at load time. */
+/**
+ * Flatten and hydrate raw steps into QuestSteps at load time. The final step is where quest XP is gained.
+ * Occurrences are counted per panel name, so panels sharing a name still get distinct step IDs.
+ */
 function flattenSteps(quest: QuestData): QuestStep[] {
   const result: QuestStep[] = [];
+  const occurrences = new Map<string, number>();
   for (const panel of quest.steps) {
     for (const raw of panel.steps) {
-      result.push(createQuestStepFromRaw(raw, quest.name));
+      const counter = JSON.stringify([panel.panelName, rawStepKey(raw)]);
+      const occurrence = occurrences.get(counter) ?? 0;
+      occurrences.set(counter, occurrence + 1);
+      result.push(createQuestStepFromRaw(raw, quest.name, panel.panelName, occurrence));
     }
   }
+  const last = result.at(-1);
+  if (last) result[result.length - 1] = { ...last, xpGained: true };
   return result;
 }
 
+/** Flat index of the first step in each panel. */
+function getPanelStartIndices(quest: QuestData): number[] {
+  return quest.steps.reduce<number[]>((acc, _, idx) => {
+    acc.push(idx === 0 ? 0 : acc[idx - 1] + quest.steps[idx - 1].steps.length);
+    return acc;
+  }, []);
+}
+
 /** Quest as stored in the store: includes pre-flattened steps for O(1) access. */
 export interface StoredQuest extends QuestData {
   flatSteps: QuestStep[];
+  panelStartIndices: number[];
+  /** When true, panels can be completed in any order; steps within a panel stay ordered. */
+  parallelPanels: boolean;
+  /** Skill chosen for each reward lamp, in order. */
+  lampSkills: Skill[];
 }
 
 interface QuestState {
@@ -27,6 +51,9 @@ interface QuestState {
     addQuest: (quest: QuestData) => void;
     advanceStep: (questId: string) => void;
     setActiveStep: (questId: string, index: number) => void;
+    setParallelPanels: (questId: string, value: boolean) => void;
+    setLampSkills: (questId: string, skills: Skill[]) => void;
+    applyProgress: (progress: Record<string, QuestProgress>) => void;
     selectQuest: (id: string | null) => void;
     reset: () => void;
   }
@@ -42,6 +69,9 @@ export const useQuestStore = create<QuestState>((set) => ({
           ...quest,
           activeStep: quest.activeStep ?? 0,
           flatSteps: flattenSteps(quest),
+          panelStartIndices: getPanelStartIndices(quest),
+          parallelPanels: state.quests[quest.name]?.parallelPanels ?? true,
+          lampSkills: state.quests[quest.name]?.lampSkills ?? [],
         };
         return {
           quests: {
@@ -74,13 +104,49 @@ export const useQuestStore = create<QuestState>((set) => ({
           },
         };
       }),
+    setParallelPanels: (questId, value) =>
+      set((state) => {
+        const quest = state.quests[questId];
+        if (!quest) return state;
+        return {
+          quests: {
+            ...state.quests,
+            [questId]: { ...quest, parallelPanels: value },
+          },
+        };
+      }),
+    setLampSkills: (questId, skills) =>
+      set((state) => {
+        const quest = state.quests[questId];
+        if (!quest) return state;
+        return {
+          quests: {
+            ...state.quests,
+            [questId]: { ...quest, lampSkills: skills },
+          },
+        };
+      }),
+    applyProgress: (progress) =>
+      set((state) => ({
+        quests: Object.fromEntries(
+          Object.entries(state.quests).map(([id, quest]) => [
+            id,
+            {
+              ...quest,
+              activeStep: progress[id]?.activeStep ?? 0,
+              parallelPanels: progress[id]?.parallelPanels ?? true,
+              lampSkills: progress[id]?.lampSkills ?? [],
+            },
+          ])
+        ),
+      })),
     selectQuest: (id) => set({ selectedQuestId: id }),
     reset: () =>
       set((state) => ({
         quests: Object.fromEntries(
           Object.entries(state.quests).map(([id, quest]) => [
             id,
-            { ...quest, activeStep: 0 },
+            { ...quest, activeStep: 0, lampSkills: [] },
           ])
         ),
       })),
@@ -114,14 +180,8 @@ export function useActiveStep(questId: string): QuestStep | undefined {
       const step = q.flatSteps[activeIndex];
       if (!step) return undefined;
       if (step.worldpoint) return step;
-      for (let i = activeIndex - 1; i >= 0; i -= 1) {
-        const previousStep = q.flatSteps[i];
-        if (previousStep?.worldpoint) {
-          return { ...step, worldpoint: previousStep.worldpoint };
-        }
-      }
-
-      return step;
+      const { worldpoint } = findStepWorldPoint(q.flatSteps, activeIndex);
+      return worldpoint ? { ...step, worldpoint } : step;
     })
   );
 }
@@ -0,0 +1,60 @@
+import { create } from "zustand";
+
+/** Display name → numeric IDs, as written by scripts/parse-wiki-ids.ts. */
+export type NameToIds = Record<string, number[]>;
+
+export type ReferenceDataStatus = "idle" | "loading" | "ready" | "error";
+
+interface ReferenceDataState {
+  npcs: NameToIds;
+  items: NameToIds;
+  status: ReferenceDataStatus;
+  error: string | null;
+  actions: {
+    /** Fetches the NPC and item tables once; later calls are no-ops unless the last load failed. */
+    load: () => Promise<void>;
+  };
+}
+
+async function fetchTable(url: string): Promise<NameToIds> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load ${url}: ${response.statusText}`);
+  return response.json();
+}
+
+export const useReferenceDataStore = create<ReferenceDataState>((set, get) => ({
+  npcs: {},
+  items: {},
+  status: "idle",
+  error: null,
+  actions: {
+    load: async () => {
+      const { status } = get();
+      if (status === "loading" || status === "ready") return;
+      set({ status: "loading", error: null });
+      try {
+        const [npcs, items] = await Promise.all([
+          fetchTable("/data/npcs-summary.json"),
+          fetchTable("/data/items-summary.json"),
+        ]);
+        set({ npcs, items, status: "ready" });
+      } catch (error) {
+        console.error("Failed to load reference data:", error);
+        set({ status: "error", error: error instanceof Error ? error.message : String(error) });
+      }
+    },
+  },
+}));
+
+export const useReferenceDataActions = () =>
+  useReferenceDataStore((state) => state.actions);
+
+export const useReferenceDataStatus = () =>
+  useReferenceDataStore((state) => state.status);
+
+export const useReferenceDataError = () =>
+  useReferenceDataStore((state) => state.error);
+
+export const useNpcTable = () => useReferenceDataStore((state) => state.npcs);
+
+export const useItemTable = () => useReferenceDataStore((state) => state.items);
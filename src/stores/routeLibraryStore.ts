@@ -0,0 +1,143 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { useShallow } from "zustand/react/shallow";
+import { v4 as uuidv4 } from "uuid";
+import type { RouteSnapshot, SavedRoute } from "../types/SavedRoute";
+import type { Step } from "../types/Steps";
+import {
+  migrateRouteLibrary,
+  ROUTE_LIBRARY_VERSION,
+  type PersistedRouteLibrary,
+} from "../util/routeMigrations";
+
+const STORAGE_KEY = "osrs-route-builder:routes";
+
+function createEmptyRoute(name: string): SavedRoute {
+  return { id: uuidv4(), name, steps: [], progress: {}, updatedAt: Date.now() };
+}
+
+interface RouteLibraryState extends PersistedRouteLibrary {
+  actions: {
+    createRoute: (name: string) => string;
+    renameRoute: (id: string, name: string) => void;
+    duplicateRoute: (id: string) => string | null;
+    deleteRoute: (id: string) => void;
+    setActiveRoute: (id: string) => void;
+    saveRoute: (id: string, snapshot: RouteSnapshot) => void;
+    /** Stores a flagged route's steps once restoreSavedRoute has remapped all of them, and drops legacyStepIds. */
+    markStepIdsCurrent: (id: string, steps: Step[]) => void;
+  };
+}
+
+const initialRoute = createEmptyRoute("My route");
+
+export const useRouteLibraryStore = create<RouteLibraryState>()(
+  persist(
+    (set, get) => ({
+      routes: { [initialRoute.id]: initialRoute },
+      activeRouteId: initialRoute.id,
+      actions: {
+        createRoute: (name) => {
+          const route = createEmptyRoute(name);
+          set((state) => ({ routes: { ...state.routes, [route.id]: route } }));
+          return route.id;
+        },
+        renameRoute: (id, name) =>
+          set((state) => {
+            const route = state.routes[id];
+            if (!route) return state;
+            return { routes: { ...state.routes, [id]: { ...route, name } } };
+          }),
+        duplicateRoute: (id) => {
+          const source = get().routes[id];
+          if (!source) return null;
+          const copy: SavedRoute = {
+            ...structuredClone(source),
+            id: uuidv4(),
+            name: `${source.name} (copy)`,
+            updatedAt: Date.now(),
+          };
+          set((state) => ({ routes: { ...state.routes, [copy.id]: copy } }));
+          return copy.id;
+        },
+        deleteRoute: (id) =>
+          set((state) => {
+            const remaining = Object.fromEntries(
+              Object.entries(state.routes).filter(([routeId]) => routeId !== id)
+            );
+            if (Object.keys(remaining).length === 0) {
+              const fallback = createEmptyRoute("My route");
+              return { routes: { [fallback.id]: fallback }, activeRouteId: fallback.id };
+            }
+            const activeRouteId =
+              state.activeRouteId === id ? Object.keys(remaining)[0] : state.activeRouteId;
+            return { routes: remaining, activeRouteId };
+          }),
+        setActiveRoute: (id) =>
+          set((state) => (state.routes[id] ? { activeRouteId: id } : state)),
+        saveRoute: (id, snapshot) =>
+          set((state) => {
+            const route = state.routes[id];
+            if (!route) return state;
+            // legacyStepIds stays until markStepIdsCurrent: the live route may still hold
+            // old IDs for quests that weren't loaded when it was restored.
+            return {
+              routes: {
+                ...state.routes,
+                [id]: {
+                  id,
+                  name: route.name,
+                  ...snapshot,
+                  updatedAt: Date.now(),
+                  ...(route.legacyStepIds ? { legacyStepIds: true } : {}),
+                },
+              },
+            };
+          }),
+        markStepIdsCurrent: (id, steps) =>
+          set((state) => {
+            const route = state.routes[id];
+            if (!route) return state;
+            const next: SavedRoute = { ...route, steps };
+            delete next.legacyStepIds;
+            return { routes: { ...state.routes, [id]: next } };
+          }),
+      },
+    }),
+    {
+      name: STORAGE_KEY,
+      version: ROUTE_LIBRARY_VERSION,
+      partialize: ({ routes, activeRouteId }) => ({ routes, activeRouteId }),
+      migrate: (persisted, version) => migrateRouteLibrary(persisted, version),
+      merge: (persisted, current) => {
+        const library = persisted as PersistedRouteLibrary | undefined;
+        if (!library || Object.keys(library.routes ?? {}).length === 0) return current;
+        const activeRouteId = library.routes[library.activeRouteId]
+          ? library.activeRouteId
+          : Object.keys(library.routes)[0];
+        return { ...current, routes: library.routes, activeRouteId };
+      },
+    }
+  )
+);
+
+export const useRouteLibraryActions = () =>
+  useRouteLibraryStore((state) => state.actions);
+
+export const useActiveRouteId = () =>
+  useRouteLibraryStore((state) => state.activeRouteId);
+
+/** Saved route IDs sorted by name. Use shallow to avoid re-renders on unrelated saves. */
+export function useSavedRouteIds(): string[] {
+  return useRouteLibraryStore(
+    useShallow((s) =>
+      Object.values(s.routes)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((r) => r.id)
+    )
+  );
+}
+
+export function useSavedRoute(id: string): SavedRoute | undefined {
+  return useRouteLibraryStore((s) => s.routes[id]);
+}
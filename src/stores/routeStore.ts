@@ -2,23 +2,45 @@ import { create } from "zustand";
 import { useShallow } from "zustand/react/shallow";
 import type { Step } from "../types/Steps";
 
+/** Returns a copy of `items` with the element at `fromIndex` moved to `toIndex`. */
+export function moveItem<T>(items: T[], fromIndex: number, toIndex: number): T[] {
+  if (fromIndex === toIndex || fromIndex < 0 || fromIndex >= items.length) return items;
+  const result = [...items];
+  const [moved] = result.splice(fromIndex, 1);
+  result.splice(Math.max(0, Math.min(toIndex, result.length)), 0, moved);
+  return result;
+}
+
 interface RouteState {
   route: Step[];
+  /** Step highlighted in RouteViewer, e.g. after clicking its map marker. */
+  selectedStepId: string | null;
   actions: {
     appendRoute: (step: Step) => void;
+    moveStep: (fromIndex: number, toIndex: number) => void;
     deleteSteps: (ids: string[]) => void;
+    updateStep: (step: Step) => void;
+    setRoute: (route: Step[]) => void;
+    selectStep: (id: string | null) => void;
     reset: () => void;
   };
 }
 
 export const useRouteStore = create<RouteState>((set) => ({
   route: [],
+  selectedStepId: null,
   actions: {
     appendRoute: (step) =>
       set((state) => ({ route: [...state.route, step] })),
+    moveStep: (fromIndex, toIndex) =>
+      set((state) => ({ route: moveItem(state.route, fromIndex, toIndex) })),
     deleteSteps: (ids) =>
       set((state) => ({ route: state.route.filter((s) => !ids.includes(s.id)) })),
-    reset: () => set({ route: [] }),
+    updateStep: (step) =>
+      set((state) => ({ route: state.route.map((s) => (s.id === step.id ? step : s)) })),
+    setRoute: (route) => set({ route }),
+    selectStep: (selectedStepId) => set({ selectedStepId }),
+    reset: () => set({ route: [], selectedStepId: null }),
   },
 }));
 
@@ -26,3 +48,6 @@ export const useRouteActions = () => useRouteStore((state) => state.actions);
 
 export const useRoute = () =>
   useRouteStore(useShallow((state) => state.route));
+
+export const useSelectedStepId = () =>
+  useRouteStore((state) => state.selectedStepId);
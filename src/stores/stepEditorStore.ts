@@ -0,0 +1,30 @@
+import { create } from "zustand";
+import type { WorldPoint } from "../types/QuestData";
+
+/** What the custom step editor is working on; `stepId` is null for a new step. */
+export interface StepDraft {
+  stepId: string | null;
+  worldpoint: WorldPoint;
+}
+
+interface StepEditorState {
+  draft: StepDraft | null;
+  actions: {
+    openNew: (worldpoint: WorldPoint) => void;
+    openEdit: (stepId: string, worldpoint: WorldPoint) => void;
+    close: () => void;
+  };
+}
+
+export const useStepEditorStore = create<StepEditorState>((set) => ({
+  draft: null,
+  actions: {
+    openNew: (worldpoint) => set({ draft: { stepId: null, worldpoint } }),
+    openEdit: (stepId, worldpoint) => set({ draft: { stepId, worldpoint } }),
+    close: () => set({ draft: null }),
+  },
+}));
+
+export const useStepDraft = () => useStepEditorStore((state) => state.draft);
+
+export const useStepEditorActions = () => useStepEditorStore((state) => state.actions);
@@ -0,0 +1,44 @@
+import { create } from "zustand";
+import type { Transport, TransportData } from "../types/Transport";
+import { expandTransportData } from "../util/transportRouter";
+
+export type TransportDataStatus = "idle" | "loading" | "ready" | "error";
+
+interface TransportState {
+  /** Point-to-point transports with networks already expanded. */
+  transports: Transport[];
+  status: TransportDataStatus;
+  error: string | null;
+  actions: {
+    /** Fetches /data/transports.json once; later calls are no-ops unless the last load failed. */
+    load: () => Promise<void>;
+  };
+}
+
+export const useTransportStore = create<TransportState>((set, get) => ({
+  transports: [],
+  status: "idle",
+  error: null,
+  actions: {
+    load: async () => {
+      const { status } = get();
+      if (status === "loading" || status === "ready") return;
+      set({ status: "loading", error: null });
+      try {
+        const response = await fetch("/data/transports.json");
+        if (!response.ok) throw new Error(`Failed to load transports: ${response.statusText}`);
+        const data: TransportData = await response.json();
+        set({ transports: expandTransportData(data), status: "ready" });
+      } catch (error) {
+        console.error("Failed to load transports:", error);
+        set({ status: "error", error: error instanceof Error ? error.message : String(error) });
+      }
+    },
+  },
+}));
+
+export const useTransportActions = () => useTransportStore((state) => state.actions);
+
+export const useTransports = () => useTransportStore((state) => state.transports);
+
+export const useTransportStatus = () => useTransportStore((state) => state.status);
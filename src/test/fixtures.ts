@@ -0,0 +1,39 @@
+import { useQuestStore, type StoredQuest } from "../stores/questStore";
+import type { QuestData, WorldPoint } from "../types/QuestData";
+import type { RawStep } from "../types/Steps";
+
+/**
+ * Builders for unit tests. Quests go through questStore.addQuest so tests see
+ * the same flatSteps, step IDs and panel indices the app does.
+ */
+
+/** A quest whose panels are given as [panel name, steps]; strings become steps with that description. */
+export function makeQuest(name: string, panels: [string, (string | RawStep)[]][], overrides: Partial<QuestData> = {}): QuestData {
+  return {
+    name,
+    questPoints: 0,
+    experienceRewards: [],
+    lampRewards: null,
+    skillRequirements: [],
+    questRequirements: [],
+    questPointRequirement: null,
+    itemRequirements: [],
+    activeStep: 0,
+    steps: panels.map(([panelName, steps]) => ({
+      panelName,
+      steps: steps.map((step) => (typeof step === "string" ? { description: step } : step)),
+    })),
+    ...overrides,
+  };
+}
+
+/** Replaces questStore's contents with `quests` and returns them as stored. */
+export function storeQuests(...quests: QuestData[]): Record<string, StoredQuest> {
+  useQuestStore.setState({ quests: {}, selectedQuestId: null });
+  for (const quest of quests) useQuestStore.getState().actions.addQuest(quest);
+  return useQuestStore.getState().quests;
+}
+
+export function point(x: number, y: number, plane = 0): WorldPoint {
+  return { x, y, plane };
+}
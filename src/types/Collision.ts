@@ -0,0 +1,49 @@
+import type { WorldPoint } from "./QuestData";
+import type { TransportRequirement } from "./Transport";
+
+/**
+ * Collision data written by scripts/build-collision-map.ts into
+ * public/data/collision/.
+ *
+ * Each 64×64 region is stored as `<regionX>_<regionY>.bin`: a bitset of two
+ * flags per tile for all four planes. Bit `((plane * 64 + localY) * 64 + localX) * 2`
+ * is set when the tile can be left to the north, the next bit when it can be
+ * left to the east. South and west moves read the neighbouring tile's flags.
+ */
+
+export const COLLISION_FORMAT = "osrs-route-builder/collision";
+export const COLLISION_VERSION = 1;
+
+/** Contents of public/data/collision/index.json. */
+export interface CollisionIndex {
+  format: typeof COLLISION_FORMAT;
+  version: number;
+  /** Region file names without extension, e.g. "50_50". */
+  regions: string[];
+}
+
+/** A door, gate or shortcut that is only passable when its requirements are met. */
+export interface ConditionalEdge {
+  id: string;
+  name: string;
+  from: WorldPoint;
+  to: WorldPoint;
+  requirements: TransportRequirement[];
+}
+
+/** Contents of public/data/collision/doors.json. */
+export interface ConditionalEdgeData {
+  edges: ConditionalEdge[];
+}
+
+/** Message posted to src/workers/pathfinder.worker.ts; `key` comes from pathKey(). */
+export interface PathRequest {
+  key: string;
+  from: WorldPoint;
+  to: WorldPoint;
+  edges: ConditionalEdge[];
+}
+
+export type PathResponse =
+  | { key: string; status: "ok"; tiles: number; path: WorldPoint[] }
+  | { key: string; status: "no-path" | "unavailable" };
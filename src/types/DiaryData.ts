@@ -0,0 +1,47 @@
+import type { SkillRequirement, WorldPoint } from "./QuestData";
+import type { RawStep } from "./Steps";
+
+/**
+ * Achievement diary tiers parsed from Quest Helper's diary helpers by
+ * scripts/parse-quest-helper.ts --diaries, one file per tier in
+ * public/data/diaries, listed in public/data/diaries/index.json.
+ */
+
+export type DiaryTier = "Easy" | "Medium" | "Hard" | "Elite";
+
+/** One diary task; a getPanels() panel in the Java helper. */
+export interface DiaryTask {
+  name: string;
+  /** First step with a WorldPoint, where the task is pinned on the map. */
+  worldpoint?: WorldPoint;
+  skillRequirements: SkillRequirement[];
+  questRequirements: string[];
+  itemRequirements: string[];
+  steps: RawStep[];
+}
+
+export interface DiaryData {
+  /** "<area> <tier>", e.g. "Varrock Easy". */
+  name: string;
+  area: string;
+  tier: DiaryTier;
+  /** Requirements of the whole tier; tasks list their own as well. */
+  skillRequirements: SkillRequirement[];
+  questRequirements: string[];
+  itemRequirements: string[];
+  tasks: DiaryTask[];
+}
+
+export interface DiaryIndexEntry {
+  /** Matches DiaryData.name. */
+  name: string;
+  /** File name inside public/data/diaries. */
+  file: string;
+  area: string;
+  tier: DiaryTier;
+  tasks: number;
+}
+
+export interface DiaryIndex {
+  diaries: DiaryIndexEntry[];
+}
@@ -0,0 +1,45 @@
+/**
+ * Report written by scripts/parse-quest-helper.ts to
+ * public/data/parser-diagnostics.json on every run that writes quest files,
+ * and to public/data/diaries/parser-diagnostics.json on every diary run.
+ * Lists the places where the Java source could not be turned into complete
+ * steps, so they can be hand-checked before a quest is relied on.
+ */
+
+export type ParserDiagnosticKind =
+  /** A getPanels() entry names a variable no step constructor assigns. */
+  | "unresolved-variable"
+  /** A step is built by a constructor the parser has no mapping for. */
+  | "unknown-constructor"
+  /** A step ended up without a worldpoint, directly or through its addStep chain. */
+  | "missing-worldpoint"
+  /** A PanelDetails entry produced no steps. */
+  | "empty-panel";
+
+export interface ParserDiagnostic {
+  kind: ParserDiagnosticKind;
+  message: string;
+  /** 1-based line in the quest's Java file; null when the text couldn't be located. */
+  line: number | null;
+  panel: string;
+  /** Step variable name, or the inline constructor expression. */
+  step?: string;
+}
+
+export interface QuestDiagnostics {
+  /** Quest name, or the diary tier name in the diary report. */
+  quest: string;
+  /** Java path relative to the quest-helper quests (or achievementdiaries) directory. */
+  source: string;
+  diagnostics: ParserDiagnostic[];
+  /** Set when the quest could not be fetched or parsed at all. */
+  error?: string;
+}
+
+export interface ParserDiagnosticsReport {
+  /** ISO-8601 timestamp. */
+  generatedAt: string;
+  /** Summary files (npcs-summary.json, …) missing on this run; their entities and items have no IDs. */
+  missingEntityTables?: string[];
+  quests: QuestDiagnostics[];
+}
@@ -0,0 +1,12 @@
+import type { Skill } from "./QuestData";
+
+/** The player's account before starting the route. */
+export interface PlayerProfile {
+  levels: Record<Skill, number>;
+  /** Quest names as in QuestData.name. */
+  completedQuests: string[];
+  /** Quest points from the in-game quest list, including quests not in completedQuests. */
+  questPoints: number;
+  /** Item names already in the bank, ticked off shopping lists. */
+  bankedItems: string[];
+}
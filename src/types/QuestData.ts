@@ -63,7 +63,16 @@ export interface QuestPanel {
   steps: RawStep[];
 }
 
+/**
+ * Written by parse-quest-helper.ts into every quest file. Files without it
+ * predate requirement and reward parsing, so those fields are empty rather
+ * than known to be empty.
+ */
+export const QUEST_DATA_VERSION = 1;
+
 export interface QuestData {
+  /** QUEST_DATA_VERSION of the parser that wrote the file; absent in older files. */
+  dataVersion?: number;
   name: string;
   questPoints: number;
   experienceRewards: ExperienceReward[];
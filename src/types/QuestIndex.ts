@@ -0,0 +1,27 @@
+import type { WorldPoint } from "./QuestData";
+
+/**
+ * Manifest of the quest JSON files in public/data/quests, written to
+ * public/data/quest-index.json by scripts/build-quest-index.ts. Lets the app
+ * list and search quests without loading every quest file up front.
+ */
+
+export type QuestDifficulty = "Novice" | "Intermediate" | "Experienced" | "Master" | "Grandmaster" | "Special";
+
+export interface QuestIndexEntry {
+  /** Matches QuestData.name. */
+  name: string;
+  /** File name inside public/data/quests. */
+  file: string;
+  questPoints: number;
+  members: boolean;
+  difficulty: QuestDifficulty | null;
+  /** Quest series from the wiki, e.g. "Gnome"; null for standalone quests. */
+  series: string | null;
+  /** First step with a WorldPoint, used to pin the quest before it is loaded. */
+  start: WorldPoint | null;
+}
+
+export interface QuestIndex {
+  quests: QuestIndexEntry[];
+}
@@ -0,0 +1,32 @@
+/**
+ * Canonical on-disk format for an exported route.
+ * Bump ROUTE_FILE_VERSION whenever the shape changes and teach parseRouteFile
+ * in src/util/routeFile.ts to upgrade older versions.
+ */
+
+import type { QuestProgress } from "./SavedRoute";
+import type { Step } from "./Steps";
+
+export const ROUTE_FILE_FORMAT = "osrs-route-builder/route";
+/** Version 2 scoped quest step IDs by quest and panel; version 1 files hold legacyQuestStepId IDs. */
+export const ROUTE_FILE_VERSION = 2;
+
+export interface RouteFile {
+  /** Always ROUTE_FILE_FORMAT; lets import reject unrelated JSON early. */
+  format: typeof ROUTE_FILE_FORMAT;
+  version: number;
+  name: string;
+  /** ISO-8601 timestamp. */
+  exportedAt: string;
+  /** Ordered route steps; quest steps reference `questId` (quest name) and step `id`. */
+  steps: Step[];
+  /** Per-quest `activeStep` and parallel/sequential mode, keyed by quest name. */
+  quests: Record<string, QuestProgress>;
+}
+
+/** A problem found while matching an imported file against the loaded quest data. */
+export interface RouteImportIssue {
+  kind: "unknown-quest" | "missing-step" | "changed-step" | "order" | "invalid-step";
+  message: string;
+  stepIndex?: number;
+}
@@ -0,0 +1,25 @@
+import type { Skill } from "./QuestData";
+import type { Step } from "./Steps";
+
+/** Per-quest progress that belongs to a route rather than to the quest data. */
+export interface QuestProgress {
+  activeStep: number;
+  parallelPanels: boolean;
+  /** Skill picked for each of the quest's reward lamps, in order; omitted when none are picked. */
+  lampSkills?: Skill[];
+}
+
+/** Everything needed to rebuild routeStore and questStore progress for one route. */
+export interface RouteSnapshot {
+  steps: Step[];
+  progress: Record<string, QuestProgress>;
+}
+
+/** A named route persisted in browser storage. */
+export interface SavedRoute extends RouteSnapshot {
+  id: string;
+  name: string;
+  updatedAt: number;
+  /** Set on routes saved before quest step IDs were scoped by quest and panel; cleared by markStepIdsCurrent once they are remapped. */
+  legacyStepIds?: boolean;
+}
@@ -3,7 +3,46 @@ import type { WorldPoint } from "./QuestData";
 /** Minimal step shape written to JSON by the parse script. */
 export interface RawStep {
   description: string;
+  /**
+   * Java variable the step was assigned to, e.g. "talkToJuliet"; absent for
+   * steps built inline in getPanels(). Keys the step's ID so the ID survives
+   * text changes and repeated descriptions.
+   */
+  sourceVar?: string;
   worldpoint?: WorldPoint;
+  /** NPC or object the step interacts with (NpcStep/ObjectStep). */
+  entity?: EntityRef;
+  /** Items Quest Helper asks the player to bring for this step. */
+  items?: StepItemRequirement[];
+  /** Branches of a Quest Helper ConditionalStep, in the order Quest Helper checks them. */
+  alternatives?: StepAlternative[];
+}
+
+/** An item requirement attached to a single step, e.g. 1x Rope. */
+export interface StepItemRequirement {
+  name: string;
+  quantity: number;
+  /** Set when the item has to be worn rather than carried. */
+  equipped?: boolean;
+  /** Quest Helper item argument, e.g. "ItemID.ROPE"; absent for grouped requirements. */
+  constant?: string;
+  /** IDs from public/data/items-summary.json; empty when the name isn't listed. */
+  ids: number[];
+}
+
+/** One ConditionalStep branch: the step Quest Helper shows while `condition` holds. */
+export interface StepAlternative extends RawStep {
+  /** Java condition expression as written, e.g. "hasRope"; null for the default step. */
+  condition: string | null;
+}
+
+/** Reference to an NPC, item or object from public/data/*-summary.json. */
+export interface EntityRef {
+  type: "npc" | "item" | "object";
+  name: string;
+  ids: number[];
+  /** Quest Helper argument the reference was parsed from, e.g. "NpcID.LAUNA". */
+  constant?: string;
 }
 
 export interface BaseStep {
@@ -16,6 +55,34 @@ export interface QuestStep extends BaseStep {
   kind: "quest";
   questId: string;
   worldpoint?: WorldPoint;
+  entity?: EntityRef;
+  items?: StepItemRequirement[];
+  /**
+   * Path of indices into the raw step's `alternatives` when a ConditionalStep
+   * branch was added instead of the step itself; description, worldpoint and
+   * entity then come from that branch.
+   */
+  branch?: number[];
+}
+
+/** User-placed waypoint such as "bank at Draynor"; not tied to any quest. */
+export interface CustomStep extends BaseStep {
+  kind: "custom";
+  worldpoint: WorldPoint;
+  notes?: string;
+  entity?: EntityRef;
+}
+
+/** One achievement diary task, added from DiaryViewer. */
+export interface DiaryStep extends BaseStep {
+  kind: "diary";
+  /** DiaryData.name, e.g. "Varrock Easy". */
+  diaryId: string;
+  /** DiaryTask.name within that diary; also the step's description. */
+  task: string;
+  worldpoint?: WorldPoint;
+  entity?: EntityRef;
+  items?: StepItemRequirement[];
 }
 
-export type Step = QuestStep;
\ No newline at end of file
+export type Step = QuestStep | CustomStep | DiaryStep;
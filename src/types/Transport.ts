@@ -0,0 +1,53 @@
+import type { Skill, WorldPoint } from "./QuestData";
+
+/**
+ * Transport data loaded from public/data/transports.json.
+ *
+ * Point-to-point links are listed individually. Networks such as fairy rings,
+ * where every stop connects to every other stop, are listed once with their
+ * stops and expanded into one Transport per ordered pair at load time.
+ */
+
+export type TransportKind =
+  | "teleport"
+  | "jewellery"
+  | "fairy-ring"
+  | "spirit-tree"
+  | "glider"
+  | "charter-ship";
+
+export type TransportRequirement =
+  | { type: "skill"; skill: Skill; level: number }
+  | { type: "quest"; quest: string }
+  | { type: "item"; item: string; quantity?: number };
+
+export interface Transport {
+  id: string;
+  kind: TransportKind;
+  name: string;
+  /** Where the transport is used from; null for teleports that work anywhere. */
+  origin: WorldPoint | null;
+  destination: WorldPoint;
+  requirements: TransportRequirement[];
+  /** Estimated ticks including animations and interfaces. */
+  ticks: number;
+}
+
+export interface TransportStop {
+  name: string;
+  worldpoint: WorldPoint;
+}
+
+export interface TransportNetwork {
+  id: string;
+  kind: TransportKind;
+  name: string;
+  stops: TransportStop[];
+  requirements: TransportRequirement[];
+  ticks: number;
+}
+
+export interface TransportData {
+  transports: Transport[];
+  networks: TransportNetwork[];
+}
@@ -0,0 +1,22 @@
+import type { EntityRef, StepItemRequirement } from "../types/Steps";
+
+const ENTITY_LABELS: Record<EntityRef["type"], string> = {
+  npc: "NPC",
+  item: "Item",
+  object: "Object",
+};
+
+/** How many IDs describeEntity lists before summarising the rest as "+N". */
+const MAX_LISTED_IDS = 3;
+
+/** "Launa (NPC 2735)"; long ID lists are cut short and unresolved entities show just the type. */
+export function describeEntity(entity: EntityRef): string {
+  const listed = entity.ids.slice(0, MAX_LISTED_IDS).join(", ");
+  const more = entity.ids.length > MAX_LISTED_IDS ? ` +${entity.ids.length - MAX_LISTED_IDS}` : "";
+  return `${entity.name} (${ENTITY_LABELS[entity.type]}${listed ? ` ${listed}` : ""}${more})`;
+}
+
+/** "bring: 1x Rope, 1x Amulet of glory (worn)". */
+export function describeStepItems(items: StepItemRequirement[]): string {
+  return `bring: ${items.map((item) => `${item.quantity}x ${item.name}${item.equipped ? " (worn)" : ""}`).join(", ")}`;
+}
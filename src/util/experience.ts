@@ -0,0 +1,39 @@
+import { Skill } from "../types/QuestData";
+
+/**
+ * OSRS experience table: XP_TABLE[level] is the XP needed to reach `level`.
+ * Built from the in-game formula rather than hardcoded.
+ */
+
+export const MAX_LEVEL = 99;
+
+export const XP_TABLE: number[] = (() => {
+  const table = [0, 0];
+  let points = 0;
+  for (let level = 1; level < MAX_LEVEL; level++) {
+    points += Math.floor(level + 300 * Math.pow(2, level / 7));
+    table.push(Math.floor(points / 4));
+  }
+  return table;
+})();
+
+export function xpForLevel(level: number): number {
+  return XP_TABLE[Math.max(1, Math.min(MAX_LEVEL, Math.floor(level)))];
+}
+
+export function levelForXp(xp: number): number {
+  let level = 1;
+  while (level < MAX_LEVEL && XP_TABLE[level + 1] <= xp) level++;
+  return level;
+}
+
+/**
+ * Skills a lamp can be used on. `skills` is the free-text description from the
+ * quest data, e.g. "Agility, Thieving or Herblore"; when it names no skill the
+ * lamp is treated as usable on any skill.
+ */
+export function lampSkillOptions(skills: string): Skill[] {
+  const text = skills.toUpperCase();
+  const named = Object.values(Skill).filter((skill) => new RegExp(`\\b${skill}\\b`).test(text));
+  return named.length > 0 ? named : Object.values(Skill);
+}
@@ -0,0 +1,68 @@
+import { Skill } from "../types/QuestData";
+
+/**
+ * Parser for the OSRS hiscores CSV (`index_lite.ws`).
+ *
+ * Each line is `rank,level,xp` for Overall followed by the skills in hiscores
+ * order; activities and bosses after them only have `rank,score`. Unranked
+ * skills report a level of -1 and are skipped so the profile keeps its value.
+ */
+
+const HISCORES_SKILL_ORDER: Skill[] = [
+  Skill.ATTACK,
+  Skill.DEFENCE,
+  Skill.STRENGTH,
+  Skill.HITPOINTS,
+  Skill.RANGED,
+  Skill.PRAYER,
+  Skill.MAGIC,
+  Skill.COOKING,
+  Skill.WOODCUTTING,
+  Skill.FLETCHING,
+  Skill.FISHING,
+  Skill.FIREMAKING,
+  Skill.CRAFTING,
+  Skill.SMITHING,
+  Skill.MINING,
+  Skill.HERBLORE,
+  Skill.AGILITY,
+  Skill.THIEVING,
+  Skill.SLAYER,
+  Skill.FARMING,
+  Skill.RUNECRAFT,
+  Skill.HUNTER,
+  Skill.CONSTRUCTION,
+  Skill.SAILING,
+];
+
+export type HiscoresParseResult =
+  | { ok: true; levels: Partial<Record<Skill, number>> }
+  | { ok: false; error: string };
+
+export function parseHiscoresCsv(text: string): HiscoresParseResult {
+  const lines = text
+    .trim()
+    .split(/\r?\n/)
+    .map((line) => line.trim().split(","));
+
+  const skillLines: number[][] = [];
+  for (const fields of lines) {
+    if (fields.length !== 3) break;
+    const values = fields.map(Number);
+    if (values.some((v) => !Number.isInteger(v))) {
+      return { ok: false, error: `Not a hiscores line: "${fields.join(",")}"` };
+    }
+    skillLines.push(values);
+  }
+
+  // The first line is Overall.
+  if (skillLines.length < 2) {
+    return { ok: false, error: "Paste the full CSV from the hiscores, starting with the Overall line." };
+  }
+
+  const levels: Partial<Record<Skill, number>> = {};
+  skillLines.slice(1, HISCORES_SKILL_ORDER.length + 1).forEach(([, level], index) => {
+    if (level >= 1) levels[HISCORES_SKILL_ORDER[index]] = level;
+  });
+  return { ok: true, levels };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultProfile } from "../stores/profileStore";
+import { point } from "../test/fixtures";
+import type { ConditionalEdge } from "../types/Collision";
+import { canMove, findPath, pathKey, REGION_BYTES, REGION_SIZE, simplifyPath, usableEdgeIds } from "./pathfinding";
+import { createPlayerState } from "./requirements";
+
+/** Region 50_50 (x 3200–3263, y 3200–3263), open everywhere except a wall east of x = 3210 on plane 0. */
+function walledRegion(): Uint8Array {
+  const region = new Uint8Array(REGION_BYTES).fill(0xff);
+  const localX = 3210 - 50 * REGION_SIZE;
+  for (let localY = 0; localY < REGION_SIZE; localY++) {
+    const bit = (localY * REGION_SIZE + localX) * 2 + 1;
+    region[bit >> 3] &= ~(1 << (bit & 7));
+  }
+  return region;
+}
+
+const region = walledRegion();
+const lookup = (key: string) => (key === "50_50" ? region : undefined);
+
+const gate: ConditionalEdge = {
+  id: "gate",
+  name: "Gate",
+  from: point(3210, 3220),
+  to: point(3211, 3220),
+  requirements: [{ type: "quest", quest: "Druidic Ritual" }],
+};
+
+describe("pathfinding", () => {
+  it("blocks moves through walls, corners and unloaded regions", () => {
+    expect(canMove(lookup, 3205, 3220, 0, 1, 0)).toBe(true);
+    expect(canMove(lookup, 3210, 3220, 0, 1, 0)).toBe(false);
+    expect(canMove(lookup, 3211, 3220, 0, -1, 0)).toBe(false);
+    expect(canMove(lookup, 3210, 3220, 0, 1, 1)).toBe(false);
+    expect(canMove(lookup, 3200, 3220, 0, -1, 0)).toBe(false);
+  });
+
+  it("finds no way past a closed wall, and one through a usable door", () => {
+    expect(findPath(point(3205, 3220), point(3215, 3220), lookup)).toBeNull();
+
+    const path = findPath(point(3205, 3220), point(3215, 3220), lookup, [gate]);
+    expect(path).toHaveLength(11);
+    expect(path).toContainEqual(point(3210, 3220));
+    expect(path).toContainEqual(point(3211, 3220));
+    expect(findPath(point(3215, 3220), point(3205, 3220), lookup, [gate])).toHaveLength(11);
+  });
+
+  it("only offers doors whose requirements the player state meets", () => {
+    const profile = createDefaultProfile();
+    expect(usableEdgeIds([gate], createPlayerState(profile))).toEqual([]);
+    expect(usableEdgeIds([gate], createPlayerState({ ...profile, completedQuests: ["Druidic Ritual"] }))).toEqual(["gate"]);
+    expect(pathKey(point(1, 2), point(3, 4), ["gate"])).not.toBe(pathKey(point(1, 2), point(3, 4)));
+  });
+
+  it("keeps only the corners of a path", () => {
+    const path = [point(0, 0), point(1, 0), point(2, 0), point(3, 1), point(4, 2), point(4, 3)];
+    expect(simplifyPath(path)).toEqual([point(0, 0), point(2, 0), point(4, 2), point(4, 3)]);
+  });
+});
@@ -0,0 +1,240 @@
+import type { WorldPoint } from "../types/QuestData";
+import type { ConditionalEdge, PathResponse } from "../types/Collision";
+import { meetsRequirements, type PlayerState } from "./requirements";
+import type { WalkedTilesLookup } from "./travel";
+
+/**
+ * Tile-level A* over the collision bitsets described in src/types/Collision.ts.
+ *
+ * Moves are the eight in-game directions at one tile per step; a diagonal is
+ * allowed only when both orthogonal moves around it are open, matching how
+ * the game clips corners. Tiles in regions that aren't loaded count as blocked.
+ */
+
+export const REGION_SIZE = 64;
+export const REGION_PLANES = 4;
+/** Size of one region file: two flag bits per tile on every plane. */
+export const REGION_BYTES = (REGION_SIZE * REGION_SIZE * REGION_PLANES * 2) / 8;
+
+/** Longest straight-line leg the pathfinder will attempt; longer legs keep the straight-line estimate. */
+export const MAX_PATH_DISTANCE = 400;
+/** Node expansion budget per search so unreachable targets fail quickly. */
+const MAX_EXPANDED_NODES = 250_000;
+
+const FLAG_NORTH = 0;
+const FLAG_EAST = 1;
+
+export type RegionLookup = (regionKey: string) => Uint8Array | undefined;
+
+/**
+ * Cache key for a walking path between two tiles through the conditional
+ * edges in `edgeIds`, so paths found for one player state aren't reused for
+ * another that can open different doors.
+ */
+export function pathKey(from: WorldPoint, to: WorldPoint, edgeIds: string[] = []): string {
+  const key = `${from.x},${from.y},${from.plane}->${to.x},${to.y},${to.plane}`;
+  return edgeIds.length > 0 ? `${key}|${edgeIds.join(",")}` : key;
+}
+
+/** IDs of the conditional edges whose requirements `state` meets, in `edges` order. */
+export function usableEdgeIds(edges: ConditionalEdge[], state: PlayerState | undefined): string[] {
+  if (!state) return [];
+  return edges.filter((edge) => meetsRequirements(edge.requirements, state)).map((edge) => edge.id);
+}
+
+/**
+ * Tile counts from finished searches, for computeRouteLegs. `edgeIdsAt` gives
+ * the usable edge IDs for the leg ending at each route index.
+ */
+export function walkedTilesFrom(
+  paths: Record<string, PathResponse>,
+  edgeIdsAt: (index: number) => string[]
+): WalkedTilesLookup {
+  return (from, to, index) => {
+    const path = paths[pathKey(from, to, edgeIdsAt(index))];
+    return path?.status === "ok" ? path.tiles : undefined;
+  };
+}
+
+export function regionKeyFor(x: number, y: number): string {
+  return `${Math.floor(x / REGION_SIZE)}_${Math.floor(y / REGION_SIZE)}`;
+}
+
+/** Region keys covering the box around two points, padded by one region on every side. */
+export function regionKeysBetween(a: WorldPoint, b: WorldPoint): string[] {
+  const minX = Math.floor(Math.min(a.x, b.x) / REGION_SIZE) - 1;
+  const maxX = Math.floor(Math.max(a.x, b.x) / REGION_SIZE) + 1;
+  const minY = Math.floor(Math.min(a.y, b.y) / REGION_SIZE) - 1;
+  const maxY = Math.floor(Math.max(a.y, b.y) / REGION_SIZE) + 1;
+  const keys: string[] = [];
+  for (let rx = minX; rx <= maxX; rx++) {
+    for (let ry = minY; ry <= maxY; ry++) keys.push(`${rx}_${ry}`);
+  }
+  return keys;
+}
+
+function getFlag(lookup: RegionLookup, x: number, y: number, plane: number, flag: number): boolean {
+  const region = lookup(regionKeyFor(x, y));
+  if (!region) return false;
+  const localX = x - Math.floor(x / REGION_SIZE) * REGION_SIZE;
+  const localY = y - Math.floor(y / REGION_SIZE) * REGION_SIZE;
+  const bit = ((plane * REGION_SIZE + localY) * REGION_SIZE + localX) * 2 + flag;
+  return ((region[bit >> 3] >> (bit & 7)) & 1) === 1;
+}
+
+function canMoveOrthogonal(lookup: RegionLookup, x: number, y: number, plane: number, dx: number, dy: number): boolean {
+  if (dy === 1) return getFlag(lookup, x, y, plane, FLAG_NORTH);
+  if (dy === -1) return getFlag(lookup, x, y - 1, plane, FLAG_NORTH);
+  if (dx === 1) return getFlag(lookup, x, y, plane, FLAG_EAST);
+  return getFlag(lookup, x - 1, y, plane, FLAG_EAST);
+}
+
+/** True when a single step of (dx, dy), each -1..1, is possible from (x, y). */
+export function canMove(lookup: RegionLookup, x: number, y: number, plane: number, dx: number, dy: number): boolean {
+  if (dx === 0 || dy === 0) return canMoveOrthogonal(lookup, x, y, plane, dx, dy);
+  return (
+    canMoveOrthogonal(lookup, x, y, plane, dx, 0) &&
+    canMoveOrthogonal(lookup, x, y, plane, 0, dy) &&
+    canMoveOrthogonal(lookup, x + dx, y, plane, 0, dy) &&
+    canMoveOrthogonal(lookup, x, y + dy, plane, dx, 0)
+  );
+}
+
+const DIRECTIONS: [number, number][] = [
+  [0, 1], [1, 0], [0, -1], [-1, 0],
+  [1, 1], [1, -1], [-1, -1], [-1, 1],
+];
+
+/** Packs a tile into one number; world x and y both fit in 15 bits. */
+function tileKey(x: number, y: number): number {
+  return x * 32768 + y;
+}
+
+/**
+ * Chebyshev distance to the target plus a tiny Euclidean tie-breaker, so among
+ * equally short paths the search prefers the one that heads straight at the target
+ * instead of zig-zagging.
+ */
+function heuristic(x: number, y: number, to: WorldPoint): number {
+  const dx = Math.abs(x - to.x);
+  const dy = Math.abs(y - to.y);
+  return Math.max(dx, dy) + Math.hypot(dx, dy) * 1e-3;
+}
+
+/** Minimal binary heap keyed by f-score. */
+class OpenSet {
+  private items: { key: number; f: number }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(key: number, f: number): void {
+    const items = this.items;
+    items.push({ key, f });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].f <= items[i].f) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].f < items[smallest].f) smallest = left;
+        if (right < items.length && items[right].f < items[smallest].f) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top.key;
+  }
+}
+
+/**
+ * Returns the tiles from `from` to `to` inclusive, or null when no path exists
+ * on the loaded regions. `edges` are conditional doors the player can use; they
+ * work in both directions.
+ */
+export function findPath(
+  from: WorldPoint,
+  to: WorldPoint,
+  lookup: RegionLookup,
+  edges: ConditionalEdge[] = []
+): WorldPoint[] | null {
+  if (from.plane !== to.plane) return null;
+  const plane = from.plane;
+
+  const extraLinks = new Map<number, number[]>();
+  for (const edge of edges) {
+    if (edge.from.plane !== plane || edge.to.plane !== plane) continue;
+    const a = tileKey(edge.from.x, edge.from.y);
+    const b = tileKey(edge.to.x, edge.to.y);
+    extraLinks.set(a, [...(extraLinks.get(a) ?? []), b]);
+    extraLinks.set(b, [...(extraLinks.get(b) ?? []), a]);
+  }
+
+  const start = tileKey(from.x, from.y);
+  const goal = tileKey(to.x, to.y);
+  const cost = new Map<number, number>([[start, 0]]);
+  const cameFrom = new Map<number, number>();
+  const open = new OpenSet();
+  open.push(start, heuristic(from.x, from.y, to));
+  let expanded = 0;
+
+  while (open.size > 0 && expanded < MAX_EXPANDED_NODES) {
+    const current = open.pop();
+    if (current === goal) break;
+    expanded++;
+
+    const x = Math.floor(current / 32768);
+    const y = current % 32768;
+    const currentCost = cost.get(current)!;
+
+    const neighbours: number[] = [];
+    for (const [dx, dy] of DIRECTIONS) {
+      if (canMove(lookup, x, y, plane, dx, dy)) neighbours.push(tileKey(x + dx, y + dy));
+    }
+    neighbours.push(...(extraLinks.get(current) ?? []));
+
+    for (const next of neighbours) {
+      const nextCost = currentCost + 1;
+      if (nextCost >= (cost.get(next) ?? Infinity)) continue;
+      cost.set(next, nextCost);
+      cameFrom.set(next, current);
+      open.push(next, nextCost + heuristic(Math.floor(next / 32768), next % 32768, to));
+    }
+  }
+
+  if (!cost.has(goal)) return null;
+
+  const path: WorldPoint[] = [];
+  for (let key: number | undefined = goal; key !== undefined; key = cameFrom.get(key)) {
+    path.unshift({ x: Math.floor(key / 32768), y: key % 32768, plane });
+  }
+  return path;
+}
+
+/** Drops tiles where the path keeps going in the same direction, leaving only its corners. */
+export function simplifyPath(path: WorldPoint[]): WorldPoint[] {
+  if (path.length <= 2) return path;
+  const corners = [path[0]];
+  for (let i = 1; i < path.length - 1; i++) {
+    const [prev, tile, next] = [path[i - 1], path[i], path[i + 1]];
+    if (tile.x - prev.x !== next.x - tile.x || tile.y - prev.y !== next.y - tile.y) corners.push(tile);
+  }
+  corners.push(path[path.length - 1]);
+  return corners;
+}
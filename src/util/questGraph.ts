@@ -0,0 +1,132 @@
+import type { StoredQuest } from "../stores/questStore";
+import type { Step } from "../types/Steps";
+import { getFlatIndex } from "./routeOrder";
+
+/**
+ * Quest dependency graph built from each loaded quest's `questRequirements`.
+ *
+ * Requirements can name quests that aren't loaded; those become nodes with
+ * `loaded: false` so the graph still shows them, but they can't be inserted
+ * into a route. Names are matched case-insensitively.
+ */
+
+export interface QuestNode {
+  /** Display name: QuestData.name for loaded quests, otherwise as written in the requirement. */
+  name: string;
+  loaded: boolean;
+  /** Direct prerequisites, by node name. */
+  prerequisites: string[];
+  /** Quests that list this one as a direct prerequisite. */
+  dependents: string[];
+  /** Longest prerequisite chain below this quest; 0 for quests with none. */
+  depth: number;
+}
+
+export type QuestGraph = Record<string, QuestNode>;
+
+export interface PrerequisiteViolation {
+  quest: string;
+  prerequisite: string;
+}
+
+function questKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+export function buildQuestGraph(quests: Record<string, StoredQuest>): QuestGraph {
+  const byKey = new Map<string, QuestNode>();
+  const nodeFor = (name: string, loaded: boolean): QuestNode => {
+    const key = questKey(name);
+    let node = byKey.get(key);
+    if (!node) {
+      node = { name, loaded, prerequisites: [], dependents: [], depth: 0 };
+      byKey.set(key, node);
+    }
+    return node;
+  };
+
+  // Loaded quests first, so requirements spelled differently still resolve to their real names.
+  for (const quest of Object.values(quests)) nodeFor(quest.name, true);
+  for (const quest of Object.values(quests)) {
+    const node = nodeFor(quest.name, true);
+    for (const required of quest.questRequirements) {
+      const prerequisite = nodeFor(required, false);
+      if (prerequisite === node || node.prerequisites.includes(prerequisite.name)) continue;
+      node.prerequisites.push(prerequisite.name);
+      prerequisite.dependents.push(node.name);
+    }
+  }
+
+  const graph: QuestGraph = Object.fromEntries([...byKey.values()].map((node) => [node.name, node]));
+  const visiting = new Set<string>();
+  const depthOf = (node: QuestNode): number => {
+    if (visiting.has(node.name)) return 0; // Cycles in the source data shouldn't hang the app.
+    if (node.depth > 0 || node.prerequisites.length === 0) return node.depth;
+    visiting.add(node.name);
+    node.depth = 1 + Math.max(...node.prerequisites.map((name) => depthOf(graph[name])));
+    visiting.delete(node.name);
+    return node.depth;
+  };
+  Object.values(graph).forEach(depthOf);
+  return graph;
+}
+
+export function findQuestNode(graph: QuestGraph, name: string): QuestNode | undefined {
+  return graph[name] ?? Object.values(graph).find((node) => questKey(node.name) === questKey(name));
+}
+
+/**
+ * Every prerequisite of `quest`, direct or inherited, ordered so each quest
+ * comes after its own prerequisites. `isDone` prunes quests that are already
+ * completed or in the route, along with everything below them.
+ */
+export function collectPrerequisites(graph: QuestGraph, quest: string, isDone: (name: string) => boolean = () => false): QuestNode[] {
+  const ordered: QuestNode[] = [];
+  const visited = new Set<string>();
+  const visit = (node: QuestNode) => {
+    for (const name of node.prerequisites) {
+      const prerequisite = graph[name];
+      if (!prerequisite || visited.has(name) || isDone(name)) continue;
+      visited.add(name);
+      visit(prerequisite);
+      ordered.push(prerequisite);
+    }
+  };
+  const root = findQuestNode(graph, quest);
+  if (root) {
+    visited.add(root.name);
+    visit(root);
+  }
+  return ordered;
+}
+
+/**
+ * Quests in the route that start before a prerequisite's final step, or
+ * whose prerequisite is in the route but unfinished. Prerequisites that
+ * aren't in the route are left to the requirement checks.
+ */
+export function findPrerequisiteViolations(
+  route: Step[],
+  quests: Record<string, StoredQuest>,
+  graph: QuestGraph
+): PrerequisiteViolation[] {
+  const firstIndex = new Map<string, number>();
+  const finalIndex = new Map<string, number>();
+  route.forEach((step, index) => {
+    if (step.kind !== "quest") return;
+    if (!firstIndex.has(step.questId)) firstIndex.set(step.questId, index);
+    const quest = quests[step.questId];
+    if (quest && getFlatIndex(quest, step.id) === quest.flatSteps.length - 1) finalIndex.set(step.questId, index);
+  });
+
+  const violations: PrerequisiteViolation[] = [];
+  for (const [questId, start] of firstIndex) {
+    const node = findQuestNode(graph, questId);
+    for (const prerequisite of node?.prerequisites ?? []) {
+      if (!firstIndex.has(prerequisite)) continue;
+      const end = finalIndex.get(prerequisite);
+      if (end === undefined || end > start) violations.push({ quest: questId, prerequisite });
+    }
+  }
+  return violations;
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultProfile } from "../stores/profileStore";
+import { makeQuest, storeQuests } from "../test/fixtures";
+import {
+  checkQuestRequirements,
+  computeRouteProgression,
+  createPlayerState,
+  findRouteRequirementIssues,
+  hasCompletedQuest,
+  hasGeneratedQuestData,
+  meetsRequirements,
+} from "./requirements";
+
+describe("requirements", () => {
+  const quests = () =>
+    storeQuests(
+      makeQuest("Rune Mysteries", [["Main", ["Talk to Duke Horacio", "Deliver the talisman"]]], { questPoints: 1 }),
+      makeQuest("Enter the Abyss", [["Main", ["Talk to the mage"]]], {
+        questRequirements: ["rune mysteries"],
+        skillRequirements: [{ skill: "RUNECRAFT", level: 10 }],
+        questPointRequirement: 1,
+      })
+    );
+
+  it("starts from the profile's levels and quests", () => {
+    const profile = { ...createDefaultProfile(), completedQuests: ["Cook's Assistant"], questPoints: 1 };
+    const state = createPlayerState(profile);
+    expect(state.levels.HITPOINTS).toBe(10);
+    expect(state.xp.HITPOINTS).toBe(1154);
+    expect(hasCompletedQuest(state, "cook's assistant")).toBe(true);
+    expect(state.questPoints).toBe(1);
+  });
+
+  it("lists unmet skill, quest and quest point requirements", () => {
+    const { "Enter the Abyss": abyss } = quests();
+    const issues = checkQuestRequirements(abyss, createPlayerState(createDefaultProfile()));
+    expect(issues.map((issue) => issue.kind)).toEqual(["skill", "quest", "quest-points"]);
+    expect(issues[0].message).toBe("Needs 10 Runecraft (1 at this point)");
+  });
+
+  it("completes quests along the route and checks requirements at each quest's first step", () => {
+    const stored = quests();
+    const [talk, deliver] = stored["Rune Mysteries"].flatSteps;
+    const [mage] = stored["Enter the Abyss"].flatSteps;
+    const profile = { ...createDefaultProfile(), levels: { ...createDefaultProfile().levels, RUNECRAFT: 10 } };
+
+    const early = [talk, mage, deliver];
+    const earlyIssues = findRouteRequirementIssues(early, stored, computeRouteProgression(early, stored, profile));
+    expect(earlyIssues[mage.id].map((issue) => issue.kind)).toEqual(["quest", "quest-points"]);
+
+    const inOrder = [talk, deliver, mage];
+    const progression = computeRouteProgression(inOrder, stored, profile);
+    expect(progression).toHaveLength(4);
+    expect(hasCompletedQuest(progression[3], "Rune Mysteries")).toBe(true);
+    expect(progression[3].questPoints).toBe(1);
+    expect(findRouteRequirementIssues(inOrder, stored, progression)).toEqual({});
+  });
+
+  it("tells quest files from before requirement parsing apart", () => {
+    expect(hasGeneratedQuestData(makeQuest("Old", []))).toBe(false);
+    expect(hasGeneratedQuestData(makeQuest("New", [], { dataVersion: 1 }))).toBe(true);
+  });
+
+  it("checks transport requirements against the player state, ignoring items", () => {
+    const state = createPlayerState({ ...createDefaultProfile(), completedQuests: ["Tree Gnome Village"] });
+    expect(meetsRequirements([{ type: "quest", quest: "tree gnome village" }, { type: "item", item: "Coins" }], state)).toBe(true);
+    expect(meetsRequirements([{ type: "skill", skill: "MAGIC", level: 25 }], state)).toBe(false);
+  });
+});
+
+describe("computeRouteProgression XP", () => {
+  const quests = () =>
+    storeQuests(
+      makeQuest(
+        "Doric's Quest",
+        [
+          ["Clay", ["Mine clay"]],
+          ["Ores", ["Mine copper", "Hand in the ores"]],
+        ],
+        { experienceRewards: [{ skill: "MINING", xp: 1300 }], questPoints: 1 }
+      )
+    );
+
+  it("gains quest XP after the quest's last step in the route, not its final flat step", () => {
+    const stored = quests();
+    const [clay, copper, handIn] = stored["Doric's Quest"].flatSteps;
+    const progression = computeRouteProgression([copper, handIn, clay], stored, createDefaultProfile());
+
+    expect(progression[2].xp.MINING).toBe(0);
+    expect(hasCompletedQuest(progression[2], "Doric's Quest")).toBe(false);
+    expect(progression[3].xp.MINING).toBe(1300);
+    expect(progression[3].levels.MINING).toBe(10);
+    expect(progression[3].questPoints).toBe(1);
+  });
+
+  it("gains nothing while the quest's final step isn't in the route", () => {
+    const stored = quests();
+    const [clay, copper] = stored["Doric's Quest"].flatSteps;
+    const progression = computeRouteProgression([clay, copper], stored, createDefaultProfile());
+    expect(progression.at(-1)?.xp.MINING).toBe(0);
+  });
+});
@@ -0,0 +1,209 @@
+import type { StoredQuest } from "../stores/questStore";
+import type { PlayerProfile } from "../types/PlayerProfile";
+import { Skill, type QuestData } from "../types/QuestData";
+import type { Step } from "../types/Steps";
+import type { TransportRequirement } from "../types/Transport";
+import { levelForXp, xpForLevel } from "./experience";
+import { getFlatIndex } from "./routeOrder";
+
+/**
+ * Requirement checking along a route.
+ *
+ * The player starts from their profile and gains quests, quest points and
+ * experience once the route has reached the quest's final step and all of its
+ * other steps in the route. A quest's requirements are checked at its first
+ * step in the route, against the state at that point.
+ */
+
+export interface PlayerState {
+  levels: Record<Skill, number>;
+  /** Starts at the minimum XP for each profile level. */
+  xp: Record<Skill, number>;
+  /** Lower-cased quest names. */
+  completedQuests: Set<string>;
+  questPoints: number;
+}
+
+export type RequirementIssue =
+  | { kind: "skill"; skill: Skill; required: number; current: number; message: string }
+  | { kind: "quest"; quest: string; message: string }
+  | { kind: "quest-points"; required: number; current: number; message: string };
+
+function questKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/** "AGILITY" → "Agility". */
+export function formatSkill(skill: Skill): string {
+  return skill.charAt(0) + skill.slice(1).toLowerCase();
+}
+
+export function createPlayerState(profile: PlayerProfile): PlayerState {
+  const xp = {} as Record<Skill, number>;
+  for (const skill of Object.values(Skill)) xp[skill] = xpForLevel(profile.levels[skill] ?? 1);
+  return {
+    levels: { ...profile.levels },
+    xp,
+    completedQuests: new Set(profile.completedQuests.map(questKey)),
+    questPoints: profile.questPoints,
+  };
+}
+
+/**
+ * False for quest files written before the parser read requirements and
+ * rewards; their empty requirement and reward fields mean "unknown".
+ */
+export function hasGeneratedQuestData(quest: QuestData): boolean {
+  return quest.dataVersion !== undefined;
+}
+
+export function hasCompletedQuest(state: PlayerState, quest: string): boolean {
+  return state.completedQuests.has(questKey(quest));
+}
+
+export function totalXp(state: PlayerState): number {
+  return Object.values(state.xp).reduce((sum, xp) => sum + xp, 0);
+}
+
+/** XP the quest awards on completion, including lamps assigned to a skill. */
+export function questXpRewards(quest: StoredQuest): Partial<Record<Skill, number>> {
+  const rewards: Partial<Record<Skill, number>> = {};
+  for (const { skill, xp } of quest.experienceRewards) rewards[skill] = (rewards[skill] ?? 0) + xp;
+  if (quest.lampRewards) {
+    for (const skill of quest.lampSkills.slice(0, quest.lampRewards.quantity)) {
+      rewards[skill] = (rewards[skill] ?? 0) + quest.lampRewards.value;
+    }
+  }
+  return rewards;
+}
+
+function applyXp(state: PlayerState, rewards: Partial<Record<Skill, number>>): PlayerState {
+  const entries = Object.entries(rewards) as [Skill, number][];
+  if (entries.length === 0) return state;
+  const levels = { ...state.levels };
+  const xp = { ...state.xp };
+  for (const [skill, gained] of entries) {
+    xp[skill] += gained;
+    // Profile levels may be boosted above what the XP table implies; never lower them.
+    levels[skill] = Math.max(levels[skill], levelForXp(xp[skill]));
+  }
+  return { ...state, levels, xp };
+}
+
+/**
+ * Route index at which each quest is finished: its last step in the route,
+ * provided the route includes the quest's final step. In parallel mode the
+ * final step can come before other panels' steps, so it isn't enough alone.
+ */
+function findQuestCompletions(route: Step[], quests: Record<string, StoredQuest>): Map<number, StoredQuest> {
+  const lastIndex = new Map<string, number>();
+  const finished = new Set<string>();
+  route.forEach((step, index) => {
+    if (step.kind !== "quest" || !quests[step.questId]) return;
+    const quest = quests[step.questId];
+    lastIndex.set(step.questId, index);
+    if (quest.flatSteps[getFlatIndex(quest, step.id)]?.xpGained) finished.add(step.questId);
+  });
+  return new Map([...finished].map((questId) => [lastIndex.get(questId)!, quests[questId]]));
+}
+
+/**
+ * Player state before each route step, plus a trailing entry for the end of
+ * the route, so `progression[i + 1]` is the state after step `i`. Consecutive
+ * entries share one object until something changes, so the array is cheap to
+ * build for long routes.
+ */
+export function computeRouteProgression(
+  route: Step[],
+  quests: Record<string, StoredQuest>,
+  profile: PlayerProfile
+): PlayerState[] {
+  let state = createPlayerState(profile);
+  const progression = [state];
+  const completions = findQuestCompletions(route, quests);
+
+  route.forEach((_, index) => {
+    const quest = completions.get(index);
+    if (quest && !hasCompletedQuest(state, quest.name)) {
+      state = applyXp(
+        {
+          ...state,
+          completedQuests: new Set(state.completedQuests).add(questKey(quest.name)),
+          questPoints: state.questPoints + quest.questPoints,
+        },
+        questXpRewards(quest)
+      );
+    }
+    progression.push(state);
+  });
+
+  return progression;
+}
+
+/** Requirements of `quest` that `state` doesn't meet. */
+export function checkQuestRequirements(quest: StoredQuest, state: PlayerState): RequirementIssue[] {
+  const issues: RequirementIssue[] = [];
+
+  for (const { skill, level } of quest.skillRequirements) {
+    const current = state.levels[skill] ?? 1;
+    if (current < level) {
+      issues.push({
+        kind: "skill",
+        skill,
+        required: level,
+        current,
+        message: `Needs ${level} ${formatSkill(skill)} (${current} at this point)`,
+      });
+    }
+  }
+
+  for (const required of quest.questRequirements) {
+    if (!hasCompletedQuest(state, required)) {
+      issues.push({ kind: "quest", quest: required, message: `Needs ${required} completed first` });
+    }
+  }
+
+  if (quest.questPointRequirement !== null && state.questPoints < quest.questPointRequirement) {
+    issues.push({
+      kind: "quest-points",
+      required: quest.questPointRequirement,
+      current: state.questPoints,
+      message: `Needs ${quest.questPointRequirement} quest points (${state.questPoints} at this point)`,
+    });
+  }
+
+  return issues;
+}
+
+/** Unmet requirements keyed by the route step that starts each quest. */
+export function findRouteRequirementIssues(
+  route: Step[],
+  quests: Record<string, StoredQuest>,
+  progression: PlayerState[]
+): Record<string, RequirementIssue[]> {
+  const issues: Record<string, RequirementIssue[]> = {};
+  const started = new Set<string>();
+
+  route.forEach((step, index) => {
+    if (step.kind !== "quest" || started.has(step.questId)) return;
+    started.add(step.questId);
+    const quest = quests[step.questId];
+    if (!quest || hasCompletedQuest(progression[index], quest.name)) return;
+    const unmet = checkQuestRequirements(quest, progression[index]);
+    if (unmet.length > 0) issues[step.id] = unmet;
+  });
+
+  return issues;
+}
+
+/**
+ * True when `state` meets the skill and quest requirements. Item requirements
+ * are assumed to be met since the profile doesn't track a bank.
+ */
+export function meetsRequirements(requirements: TransportRequirement[], state: PlayerState): boolean {
+  return requirements.every((requirement) => {
+    if (requirement.type === "skill") return (state.levels[requirement.skill] ?? 1) >= requirement.level;
+    if (requirement.type === "quest") return hasCompletedQuest(state, requirement.quest);
+    return true;
+  });
+}
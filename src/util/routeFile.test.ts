@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { legacyQuestStepId } from "../factories/StepFactory";
+import { makeQuest, storeQuests } from "../test/fixtures";
+import { createRouteFile, reconcileRouteFile } from "./routeFile";
+
+describe("reconcileRouteFile", () => {
+  const panels = (sourceVars: boolean) =>
+    makeQuest("Imp Catcher", [
+      ["Beads", ["Kill an imp", "Kill an imp", "Talk to Wizard Mizgog"].map((description, index) => ({
+        description,
+        ...(sourceVars ? { sourceVar: `step${index}` } : {}),
+      }))],
+    ]);
+
+  it("matches IDs exported before quest files recorded sourceVar", () => {
+    const before = storeQuests(panels(false))["Imp Catcher"].flatSteps;
+    const file = createRouteFile("Imps", { steps: [before[1], before[2]], progress: {} });
+    const after = storeQuests(panels(true))["Imp Catcher"].flatSteps;
+
+    const { snapshot, issues } = reconcileRouteFile(file, storeQuests(panels(true)));
+    expect(issues).toEqual([]);
+    expect(snapshot.steps.map((s) => s.id)).toEqual([after[1].id, after[2].id]);
+  });
+
+  it("only reads description-only IDs from version 1 files", () => {
+    const quests = storeQuests(panels(true));
+    const [first, second] = quests["Imp Catcher"].flatSteps;
+    const legacy = { ...first, id: legacyQuestStepId("Kill an imp") };
+    const file = createRouteFile("Imps", { steps: [legacy, legacy], progress: {} });
+
+    expect(reconcileRouteFile({ ...file, version: 1 }, quests).snapshot.steps.map((s) => s.id)).toEqual([first.id, second.id]);
+    // Version 2 files fall back to the description match and report it.
+    expect(reconcileRouteFile(file, quests).issues.map((issue) => issue.kind)).toEqual(["changed-step", "changed-step"]);
+  });
+});
@@ -0,0 +1,169 @@
+import type { StoredQuest } from "../stores/questStore";
+import {
+  ROUTE_FILE_FORMAT,
+  ROUTE_FILE_VERSION,
+  type RouteFile,
+  type RouteImportIssue,
+} from "../types/RouteFile";
+import type { QuestProgress, RouteSnapshot } from "../types/SavedRoute";
+import type { Step } from "../types/Steps";
+import { normalizeProgress, normalizeStep, previousStepIds } from "./routeMigrations";
+import { findOrderViolation } from "./routeOrder";
+import { resolveBranchStep } from "./stepAlternatives";
+
+export type RouteFileParseResult =
+  | { ok: true; file: RouteFile; issues: RouteImportIssue[] }
+  | { ok: false; error: string };
+
+export function createRouteFile(name: string, snapshot: RouteSnapshot): RouteFile {
+  return {
+    format: ROUTE_FILE_FORMAT,
+    version: ROUTE_FILE_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    steps: snapshot.steps,
+    quests: snapshot.progress,
+  };
+}
+
+/** Triggers a browser download of the route as pretty-printed JSON. */
+export function downloadRouteFile(file: RouteFile): void {
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = `${file.name.replace(/[^a-z0-9-_ ]/gi, "").trim() || "route"}.route.json`;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Parses and structurally validates route file text. Steps with a bad shape are reported and dropped. */
+export function parseRouteFile(text: string): RouteFileParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "File is not valid JSON." };
+  }
+
+  if (typeof data !== "object" || data === null) {
+    return { ok: false, error: "File does not contain a route." };
+  }
+  const raw = data as Record<string, unknown>;
+  if (raw.format !== ROUTE_FILE_FORMAT) {
+    return { ok: false, error: "File is not an OSRS Route Builder route." };
+  }
+  if (typeof raw.version !== "number" || raw.version > ROUTE_FILE_VERSION) {
+    return { ok: false, error: `Unsupported route file version ${String(raw.version)}; this app reads up to version ${ROUTE_FILE_VERSION}.` };
+  }
+  if (!Array.isArray(raw.steps)) {
+    return { ok: false, error: "Route file has no steps list." };
+  }
+
+  const issues: RouteImportIssue[] = [];
+  const steps: Step[] = [];
+  raw.steps.forEach((value, stepIndex) => {
+    const step = normalizeStep(value);
+    if (step) steps.push(step);
+    else issues.push({ kind: "invalid-step", stepIndex, message: `Step ${stepIndex + 1} is malformed and was skipped.` });
+  });
+
+  return {
+    ok: true,
+    issues,
+    file: {
+      format: ROUTE_FILE_FORMAT,
+      version: raw.version,
+      name: typeof raw.name === "string" && raw.name.trim() ? raw.name : "Imported route",
+      exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : "",
+      steps,
+      quests: normalizeProgress(raw.quests),
+    },
+  };
+}
+
+/**
+ * Matches a parsed file against the currently loaded quest data.
+ *
+ * Quest steps are looked up by ID first, including IDs from earlier schemes
+ * (previousStepIds), and then by description. Steps found by
+ * ID keep their ConditionalStep branch while it still exists. Steps found by
+ * description are refreshed from the quest data and reported as changed; steps
+ * that match nothing are dropped and reported as missing.
+ */
+export function reconcileRouteFile(
+  file: RouteFile,
+  quests: Record<string, StoredQuest>
+): { snapshot: RouteSnapshot; issues: RouteImportIssue[] } {
+  const issues: RouteImportIssue[] = [];
+  const steps: Step[] = [];
+  const usedIds = new Set<string>();
+  const previousByQuest = new Map<string, Map<string, string[]>>();
+
+  file.steps.forEach((step, stepIndex) => {
+    if (step.kind !== "quest") {
+      steps.push(step);
+      return;
+    }
+
+    const quest = quests[step.questId];
+    if (!quest) {
+      issues.push({ kind: "unknown-quest", stepIndex, message: `Step ${stepIndex + 1}: quest "${step.questId}" is not available.` });
+      return;
+    }
+
+    // IDs from earlier schemes still count as ID matches; version 1 files hold description-only IDs.
+    if (!previousByQuest.has(quest.name)) previousByQuest.set(quest.name, previousStepIds(quest, file.version < 2));
+    const previousId = previousByQuest.get(quest.name)?.get(step.id)?.find((id) => !usedIds.has(id));
+    const byId =
+      quest.flatSteps.find((s) => s.id === step.id && !usedIds.has(s.id)) ??
+      quest.flatSteps.find((s) => s.id === previousId);
+    if (byId) {
+      usedIds.add(byId.id);
+      steps.push(resolveBranchStep(quest, byId.id, step.branch) ?? byId);
+      return;
+    }
+
+    const byDescription = quest.flatSteps.find((s) => s.description === step.description && !usedIds.has(s.id));
+    if (byDescription) {
+      usedIds.add(byDescription.id);
+      steps.push(byDescription);
+      issues.push({ kind: "changed-step", stepIndex, message: `Step ${stepIndex + 1}: "${step.description}" was re-matched to the current ${step.questId} data.` });
+      return;
+    }
+
+    issues.push({ kind: "missing-step", stepIndex, message: `Step ${stepIndex + 1}: "${step.description}" no longer exists in ${step.questId} and was dropped.` });
+  });
+
+  const progress: Record<string, QuestProgress> = {};
+  for (const [questId, entry] of Object.entries(file.quests)) {
+    const quest = quests[questId];
+    if (!quest) continue;
+    progress[questId] = {
+      ...entry,
+      activeStep: Math.max(0, Math.min(entry.activeStep, quest.flatSteps.length)),
+    };
+  }
+
+  const orderIssue = findOrderIssue(steps, quests, progress);
+  if (orderIssue) issues.push(orderIssue);
+
+  return { snapshot: { steps, progress }, issues };
+}
+
+/** Checks incoming steps against quest order using the incoming (not current) parallel modes. */
+export function findOrderIssue(
+  steps: Step[],
+  quests: Record<string, StoredQuest>,
+  progress: Record<string, QuestProgress>
+): RouteImportIssue | null {
+  const questsWithProgress = Object.fromEntries(
+    Object.entries(quests).map(([id, quest]) => [id, { ...quest, parallelPanels: progress[id]?.parallelPanels ?? true }])
+  );
+  const violation = findOrderViolation(steps, questsWithProgress);
+  if (!violation) return null;
+  return {
+    kind: "order",
+    message: `"${violation.step.description}" comes before "${violation.requires.description}" (${violation.step.questId}).`,
+  };
+}
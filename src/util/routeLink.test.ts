@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { StoredQuest } from "../stores/questStore";
+import { createCustomStep, createDiaryStep } from "../factories/StepFactory";
+import { makeQuest, point, storeQuests } from "../test/fixtures";
+import { decodeRouteLink, encodeRouteLink, hasRouteLink, resolveRouteLink } from "./routeLink";
+
+vi.stubGlobal("window", { location: { href: "https://example.com/app?x=1#old" } });
+
+/** The fragment of an encoded link, as `window.location.hash` would return it. */
+function hashOf(link: string): string {
+  return new URL(link).hash;
+}
+
+describe("routeLink", () => {
+  let quests: Record<string, StoredQuest>;
+
+  beforeEach(() => {
+    quests = storeQuests(
+      makeQuest("Cook's Assistant", [
+        ["Start", ["Talk to the cook", "Get an egg"]],
+        ["Flour", ["Pick wheat", "Grind the wheat"]],
+      ]),
+      makeQuest("Sheep Shearer", [["Wool", ["Shear a sheep", "Shear a sheep", "Spin the wool"]]])
+    );
+  });
+
+  it("round-trips quest, custom and diary steps with progress", async () => {
+    const [talk, egg, wheat] = quests["Cook's Assistant"].flatSteps;
+    const [shearFirst, shearSecond] = quests["Sheep Shearer"].flatSteps;
+    const custom = createCustomStep({ description: "Bank", worldpoint: point(3208, 3220, 2), notes: "Withdraw coins" });
+    const diary = createDiaryStep({ diaryId: "Lumbridge Easy", task: "Mine copper", worldpoint: point(3229, 3146) });
+    const steps = [talk, shearFirst, custom, egg, shearSecond, diary, wheat];
+    const progress = {
+      "Cook's Assistant": { activeStep: 1, parallelPanels: false },
+      "Sheep Shearer": { activeStep: 0, parallelPanels: true, lampSkills: ["CRAFTING" as const] },
+    };
+
+    const link = await encodeRouteLink("Lumbridge start", { steps, progress });
+    expect(link.startsWith("https://example.com/app?x=1#route=")).toBe(true);
+    expect(hasRouteLink(hashOf(link))).toBe(true);
+
+    const payload = await decodeRouteLink(hashOf(link));
+    expect(payload).not.toBeNull();
+    const { name, snapshot, issues } = resolveRouteLink(payload!, quests);
+
+    expect(name).toBe("Lumbridge start");
+    expect(issues).toEqual([]);
+    expect(snapshot.progress).toEqual(progress);
+    expect(snapshot.steps.map((s) => (s.kind === "custom" ? s.description : s.id))).toEqual([
+      talk.id,
+      shearFirst.id,
+      "Bank",
+      egg.id,
+      shearSecond.id,
+      diary.id,
+      wheat.id,
+    ]);
+    expect(snapshot.steps[2]).toMatchObject({ kind: "custom", worldpoint: point(3208, 3220, 2), notes: "Withdraw coins" });
+    expect(snapshot.steps[5]).toEqual(diary);
+  });
+
+  it("resolves links made before quest files recorded sourceVar", async () => {
+    const before = quests["Sheep Shearer"].flatSteps;
+    const link = await encodeRouteLink("Route", { steps: [before[1], before[2]], progress: {} });
+    const after = storeQuests(
+      makeQuest("Sheep Shearer", [
+        ["Wool", [
+          { description: "Shear a sheep", sourceVar: "shearSheep" },
+          { description: "Shear a sheep", sourceVar: "shearAgain" },
+          { description: "Spin the wool", sourceVar: "spinWool" },
+        ]],
+      ])
+    );
+
+    const { snapshot, issues } = resolveRouteLink((await decodeRouteLink(hashOf(link)))!, after);
+    expect(issues).toEqual([]);
+    expect(snapshot.steps.map((s) => s.id)).toEqual([after["Sheep Shearer"].flatSteps[1].id, after["Sheep Shearer"].flatSteps[2].id]);
+  });
+
+  it("reports steps of quests that aren't available", async () => {
+    const [talk] = quests["Cook's Assistant"].flatSteps;
+    const link = await encodeRouteLink("Route", { steps: [talk], progress: {} });
+    const payload = await decodeRouteLink(hashOf(link));
+    const { snapshot, issues } = resolveRouteLink(payload!, {});
+    expect(snapshot.steps).toEqual([]);
+    expect(issues.map((issue) => issue.kind)).toEqual(["unknown-quest"]);
+  });
+
+  it("skips and reports damaged entries in a decodable payload", () => {
+    const [talk] = quests["Cook's Assistant"].flatSteps;
+    const payload = {
+      v: 2,
+      n: "Hand-edited",
+      q: ["Cook's Assistant"],
+      s: [
+        null,
+        [0, talk.id.replace(/-/g, "").slice(0, 8)],
+        { d: "No location" },
+        { t: ["Lumbridge Easy"] },
+        { d: "Bad entity", w: [1, 2, 0], e: ["boat", "Ship", []] },
+        [0, 42],
+      ],
+      p: [[0, 1, 1], "garbage", [0, 1, 1, ["JUGGLING"]]],
+    };
+
+    const { snapshot, issues } = resolveRouteLink(payload as unknown as Parameters<typeof resolveRouteLink>[0], quests);
+    expect(snapshot.steps.map((s) => s.id)).toEqual([talk.id]);
+    expect(snapshot.progress).toEqual({ "Cook's Assistant": { activeStep: 1, parallelPanels: true } });
+    expect(issues.map((issue) => [issue.kind, issue.stepIndex])).toEqual([
+      ["invalid-step", 0],
+      ["invalid-step", 2],
+      ["invalid-step", 3],
+      ["invalid-step", 4],
+      ["invalid-step", 5],
+      ["invalid-step", undefined],
+      ["invalid-step", undefined],
+    ]);
+  });
+
+  it("returns null for missing or corrupt fragments", async () => {
+    expect(hasRouteLink("#other=1")).toBe(false);
+    expect(await decodeRouteLink("#other=1")).toBeNull();
+    expect(await decodeRouteLink("#route=not-deflate-data")).toBeNull();
+  });
+});
@@ -0,0 +1,309 @@
+import type { StoredQuest } from "../stores/questStore";
+import type { RouteImportIssue } from "../types/RouteFile";
+import type { QuestProgress, RouteSnapshot } from "../types/SavedRoute";
+import { Skill } from "../types/QuestData";
+import type { EntityRef, QuestStep, Step } from "../types/Steps";
+import { createCustomStep, createDiaryStep } from "../factories/StepFactory";
+import { findOrderIssue } from "./routeFile";
+import { previousStepIds } from "./routeMigrations";
+import { resolveBranchStep } from "./stepAlternatives";
+
+/**
+ * Compact route encoding for shareable links.
+ *
+ * The payload is JSON, deflate-compressed and base64url-encoded into the URL
+ * fragment (`#route=…`) so nothing is sent to a server. Quest steps are stored
+ * as [quest index, step ID prefix], plus the branch path when a ConditionalStep
+ * branch was added. The first STEP_ID_PREFIX_LENGTH hex digits of the UUID are
+ * enough to tell steps within a single quest apart. Version 1 links were made
+ * when step IDs came from the description alone (legacyQuestStepId) and are
+ * still read. Version 2 prefixes that match no current ID are tried against
+ * the IDs steps had before the parser recorded sourceVar. Custom steps carry their
+ * own data since there is nothing to look them up against. Diary steps carry
+ * their diary, task, location and entity, so links resolve without the diary
+ * files loaded; their items are left out to keep links short.
+ */
+
+const LINK_PARAM = "route";
+const LINK_VERSION = 2;
+const LEGACY_LINK_VERSION = 1;
+const STEP_ID_PREFIX_LENGTH = 8;
+
+/** Discord caps messages at 2000 characters; most other chat clients allow more. */
+export const CHAT_LINK_LIMIT = 2000;
+
+type SharedQuestStep = [questIndex: number, stepIdPrefix: string, branch?: number[]];
+
+interface SharedCustomStep {
+  d: string;
+  w: [x: number, y: number, plane: number];
+  n?: string;
+  e?: [type: EntityRef["type"], name: string, ids: number[]];
+}
+
+interface SharedDiaryStep {
+  t: [diary: string, task: string];
+  w?: [x: number, y: number, plane: number];
+  e?: [type: EntityRef["type"], name: string, ids: number[]];
+}
+
+type SharedStep = SharedQuestStep | SharedCustomStep | SharedDiaryStep;
+
+type SharedProgress = [questIndex: number, activeStep: number, parallel: number, lampSkills?: Skill[]];
+
+interface SharePayload {
+  v: number;
+  n: string;
+  /** Quest names referenced by `s` and `p`. */
+  q: string[];
+  s: SharedStep[];
+  /** `parallel` is 1 or 0; `lampSkills` is left off when no lamps are assigned. */
+  p: SharedProgress[];
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function pipeBytes(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const piped = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(piped).arrayBuffer());
+}
+
+function stepIdPrefix(id: string): string {
+  return id.replace(/-/g, "").slice(0, STEP_ID_PREFIX_LENGTH);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isSharedPoint(value: unknown): value is [number, number, number] {
+  return Array.isArray(value) && value.length === 3 && value.every((n) => typeof n === "number");
+}
+
+function isSharedEntity(value: unknown): value is [EntityRef["type"], string, number[]] {
+  return (
+    Array.isArray(value) &&
+    (value[0] === "npc" || value[0] === "item" || value[0] === "object") &&
+    typeof value[1] === "string" &&
+    Array.isArray(value[2]) &&
+    value[2].every((id) => typeof id === "number")
+  );
+}
+
+/**
+ * Validates one entry of a decoded link's `s`, returning null for anything
+ * that can't become a step. Links are pasted by users, so nothing is trusted.
+ */
+function readSharedStep(value: unknown): SharedStep | null {
+  if (Array.isArray(value)) {
+    const [questIndex, prefix, branch] = value;
+    if (!Number.isInteger(questIndex) || typeof prefix !== "string") return null;
+    if (branch !== undefined && !(Array.isArray(branch) && branch.every((index) => Number.isInteger(index) && index >= 0))) return null;
+    return value as SharedQuestStep;
+  }
+  if (!isRecord(value)) return null;
+  if (value.e !== undefined && !isSharedEntity(value.e)) return null;
+  if ("t" in value) {
+    const valid =
+      Array.isArray(value.t) && typeof value.t[0] === "string" && typeof value.t[1] === "string" &&
+      (value.w === undefined || isSharedPoint(value.w));
+    return valid ? (value as unknown as SharedDiaryStep) : null;
+  }
+  const valid = typeof value.d === "string" && isSharedPoint(value.w) && (value.n === undefined || typeof value.n === "string");
+  return valid ? (value as unknown as SharedCustomStep) : null;
+}
+
+function readSharedProgress(value: unknown): SharedProgress | null {
+  if (!Array.isArray(value)) return null;
+  const [questIndex, activeStep, parallel, lampSkills] = value;
+  if (!Number.isInteger(questIndex) || typeof activeStep !== "number" || (parallel !== 0 && parallel !== 1)) return null;
+  if (lampSkills !== undefined && !(Array.isArray(lampSkills) && lampSkills.every((skill) => typeof skill === "string" && skill in Skill))) return null;
+  return value as SharedProgress;
+}
+
+/**
+ * First unused quest step whose ID before sourceVar-keyed IDs, or with
+ * `legacy` its description-only ID, starts with `prefix`.
+ */
+function findPreviousStep(quest: StoredQuest, prefix: string, legacy: boolean, usedIds: Set<string>): QuestStep | undefined {
+  for (const [previousId, ids] of previousStepIds(quest, legacy)) {
+    if (stepIdPrefix(previousId) !== prefix) continue;
+    const id = ids.find((candidate) => !usedIds.has(candidate));
+    if (id) return quest.flatSteps.find((s) => s.id === id);
+  }
+  return undefined;
+}
+
+/** Builds the full shareable URL for a route. */
+export async function encodeRouteLink(name: string, snapshot: RouteSnapshot): Promise<string> {
+  const questNames: string[] = [];
+  const questIndex = (questId: string) => {
+    const index = questNames.indexOf(questId);
+    return index === -1 ? questNames.push(questId) - 1 : index;
+  };
+
+  const payload: SharePayload = {
+    v: LINK_VERSION,
+    n: name,
+    q: questNames,
+    s: snapshot.steps.map((step): SharedStep => {
+      if (step.kind === "quest") {
+        const entry: SharedQuestStep = [questIndex(step.questId), stepIdPrefix(step.id)];
+        if (step.branch) entry.push(step.branch);
+        return entry;
+      }
+      if (step.kind === "diary") {
+        return {
+          t: [step.diaryId, step.task],
+          ...(step.worldpoint ? { w: [step.worldpoint.x, step.worldpoint.y, step.worldpoint.plane] } : {}),
+          ...(step.entity ? { e: [step.entity.type, step.entity.name, step.entity.ids] } : {}),
+        };
+      }
+      const { x, y, plane } = step.worldpoint;
+      return {
+        d: step.description,
+        w: [x, y, plane],
+        ...(step.notes ? { n: step.notes } : {}),
+        ...(step.entity ? { e: [step.entity.type, step.entity.name, step.entity.ids] } : {}),
+      };
+    }),
+    p: Object.entries(snapshot.progress).map(([questId, progress]) => {
+      const entry: SharedProgress = [questIndex(questId), progress.activeStep, progress.parallelPanels ? 1 : 0];
+      if (progress.lampSkills) entry.push(progress.lampSkills);
+      return entry;
+    }),
+  };
+
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const compressed = await pipeBytes(json, new CompressionStream("deflate-raw"));
+  const url = new URL(window.location.href);
+  url.hash = `${LINK_PARAM}=${toBase64Url(compressed)}`;
+  return url.toString();
+}
+
+export function hasRouteLink(hash: string): boolean {
+  return new URLSearchParams(hash.replace(/^#/, "")).has(LINK_PARAM);
+}
+
+/** Reads a shared route payload from a URL fragment, or null when there is none or it is corrupt. */
+export async function decodeRouteLink(hash: string): Promise<SharePayload | null> {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const encoded = params.get(LINK_PARAM);
+  if (!encoded) return null;
+
+  try {
+    const json = await pipeBytes(fromBase64Url(encoded), new DecompressionStream("deflate-raw"));
+    const payload = JSON.parse(new TextDecoder().decode(json)) as SharePayload;
+    if (!isRecord(payload) || (payload.v !== LINK_VERSION && payload.v !== LEGACY_LINK_VERSION)) return null;
+    if (!Array.isArray(payload.q) || !payload.q.every((name) => typeof name === "string") || !Array.isArray(payload.s)) return null;
+    if (payload.p !== undefined && !Array.isArray(payload.p)) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/** Removes the shared route fragment from the address bar without reloading. */
+export function clearRouteLink(): void {
+  const url = new URL(window.location.href);
+  url.hash = "";
+  window.history.replaceState(null, "", url.toString());
+}
+
+/**
+ * Resolves a decoded payload against the loaded quest data. Malformed entries
+ * and steps whose ID can't be found are skipped and reported instead of
+ * failing the whole link.
+ */
+export function resolveRouteLink(
+  payload: SharePayload,
+  quests: Record<string, StoredQuest>
+): { name: string; snapshot: RouteSnapshot; issues: RouteImportIssue[] } {
+  const issues: RouteImportIssue[] = [];
+  const steps: Step[] = [];
+  const usedIds = new Set<string>();
+
+  (payload.s as unknown[]).forEach((entry, stepIndex) => {
+    const shared = readSharedStep(entry);
+    if (!shared) {
+      issues.push({ kind: "invalid-step", stepIndex, message: `Step ${stepIndex + 1} of the link is damaged and was skipped.` });
+      return;
+    }
+
+    if (!Array.isArray(shared) && "t" in shared) {
+      steps.push(
+        createDiaryStep({
+          diaryId: shared.t[0],
+          task: shared.t[1],
+          ...(shared.w ? { worldpoint: { x: shared.w[0], y: shared.w[1], plane: shared.w[2] } } : {}),
+          ...(shared.e ? { entity: { type: shared.e[0], name: shared.e[1], ids: shared.e[2] } } : {}),
+        })
+      );
+      return;
+    }
+
+    if (!Array.isArray(shared)) {
+      const [x, y, plane] = shared.w;
+      steps.push(
+        createCustomStep({
+          description: shared.d,
+          worldpoint: { x, y, plane },
+          ...(shared.n ? { notes: shared.n } : {}),
+          ...(shared.e ? { entity: { type: shared.e[0], name: shared.e[1], ids: shared.e[2] } } : {}),
+        })
+      );
+      return;
+    }
+
+    const [questIndex, prefix, branch] = shared;
+    const questId = payload.q[questIndex];
+    const quest = questId && Object.hasOwn(quests, questId) ? quests[questId] : undefined;
+    if (!quest) {
+      issues.push({ kind: "unknown-quest", stepIndex, message: `Step ${stepIndex + 1}: quest "${questId ?? "?"}" is not available.` });
+      return;
+    }
+    // Old IDs can repeat for steps sharing a description, so each link entry takes the first unused match.
+    const step =
+      (payload.v === LINK_VERSION ? quest.flatSteps.find((s) => !usedIds.has(s.id) && stepIdPrefix(s.id) === prefix) : undefined) ??
+      findPreviousStep(quest, prefix, payload.v === LEGACY_LINK_VERSION, usedIds);
+    if (!step) {
+      issues.push({ kind: "missing-step", stepIndex, message: `Step ${stepIndex + 1} of ${questId} no longer exists and was skipped.` });
+      return;
+    }
+    usedIds.add(step.id);
+    steps.push(resolveBranchStep(quest, step.id, Array.isArray(branch) ? branch : undefined) ?? step);
+  });
+
+  const progress: Record<string, QuestProgress> = {};
+  for (const [entryIndex, entry] of ((payload.p ?? []) as unknown[]).entries()) {
+    const shared = readSharedProgress(entry);
+    if (!shared) {
+      issues.push({ kind: "invalid-step", message: `Quest progress entry ${entryIndex + 1} of the link is damaged and was skipped.` });
+      continue;
+    }
+    const [questIndex, activeStep, parallel, lampSkills] = shared;
+    const questId = payload.q[questIndex];
+    const quest = questId && Object.hasOwn(quests, questId) ? quests[questId] : undefined;
+    if (!quest) continue;
+    progress[questId] = {
+      activeStep: Math.max(0, Math.min(activeStep, quest.flatSteps.length)),
+      parallelPanels: parallel === 1,
+      ...(Array.isArray(lampSkills) && lampSkills.length > 0 ? { lampSkills } : {}),
+    };
+  }
+
+  const orderIssue = findOrderIssue(steps, quests, progress);
+  if (orderIssue) issues.push(orderIssue);
+
+  return { name: (typeof payload.n === "string" && payload.n) || "Shared route", snapshot: { steps, progress }, issues };
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import { legacyQuestStepId } from "../factories/StepFactory";
+import { makeQuest, storeQuests } from "../test/fixtures";
+import type { SavedRoute } from "../types/SavedRoute";
+import {
+  migrateRouteLibrary,
+  normalizeProgress,
+  normalizeStep,
+  restoreSavedRoute,
+  ROUTE_LIBRARY_VERSION,
+} from "./routeMigrations";
+
+const worldpoint = { x: 3222, y: 3218, plane: 0 };
+
+describe("normalizeStep", () => {
+  it("keeps valid quest, custom and diary steps", () => {
+    const quest = { id: "q", kind: "quest", questId: "Cook's Assistant", description: "Talk to the cook", xpGained: false, worldpoint };
+    const custom = { id: "c", kind: "custom", description: "Bank", xpGained: false, worldpoint, notes: "Deposit all" };
+    const diary = { id: "d", kind: "diary", diaryId: "Lumbridge Easy", task: "Mine copper", description: "Mine copper", xpGained: false };
+    expect(normalizeStep(quest)).toEqual(quest);
+    expect(normalizeStep(custom)).toEqual(custom);
+    expect(normalizeStep(diary)).toEqual(diary);
+  });
+
+  it("rejects steps the app can no longer render", () => {
+    expect(normalizeStep(null)).toBeNull();
+    expect(normalizeStep({ id: "x", kind: "quest", description: "No quest id" })).toBeNull();
+    expect(normalizeStep({ id: "x", kind: "custom", description: "No location" })).toBeNull();
+    expect(normalizeStep({ id: "x", kind: "quest", questId: "Q", description: "Bad point", worldpoint: { x: 1 } })).toBeNull();
+    expect(normalizeStep({ id: "x", kind: "unknown", description: "?" })).toBeNull();
+  });
+
+  it("drops malformed optional fields instead of the step", () => {
+    const step = normalizeStep({
+      id: "q",
+      kind: "quest",
+      questId: "Q",
+      description: "Use the key",
+      entity: { type: "boat", name: "Ship" },
+      items: [{ name: "Key", quantity: 1, ids: [123, "x"] }, { name: "No quantity" }],
+      branch: [-1],
+    });
+    expect(step).toEqual({
+      id: "q",
+      kind: "quest",
+      questId: "Q",
+      description: "Use the key",
+      xpGained: false,
+      items: [{ name: "Key", quantity: 1, ids: [123] }],
+    });
+  });
+});
+
+describe("normalizeProgress", () => {
+  it("defaults parallel panels on and filters unknown lamp skills", () => {
+    expect(
+      normalizeProgress({
+        "Cook's Assistant": { activeStep: 2 },
+        "Waterfall Quest": { activeStep: 0, parallelPanels: false, lampSkills: ["ATTACK", "JUGGLING"] },
+        Broken: { activeStep: "1" },
+      })
+    ).toEqual({
+      "Cook's Assistant": { activeStep: 2, parallelPanels: true },
+      "Waterfall Quest": { activeStep: 0, parallelPanels: false, lampSkills: ["ATTACK"] },
+    });
+  });
+});
+
+describe("migrateRouteLibrary", () => {
+  it("flags routes saved before step IDs were scoped", () => {
+    const library = migrateRouteLibrary(
+      { routes: { a: { id: "a", name: "Old", updatedAt: 1, steps: [], progress: {} } }, activeRouteId: "a" },
+      1
+    );
+    expect(library.routes.a.legacyStepIds).toBe(true);
+    expect(library.activeRouteId).toBe("a");
+  });
+
+  it("leaves current routes unflagged", () => {
+    const library = migrateRouteLibrary(
+      { routes: { a: { id: "a", name: "New", updatedAt: 1, steps: [], progress: {} } }, activeRouteId: "a" },
+      ROUTE_LIBRARY_VERSION
+    );
+    expect(library.routes.a.legacyStepIds).toBeUndefined();
+  });
+
+  it("drops invalid routes and steps and fills missing fields", () => {
+    const library = migrateRouteLibrary(
+      {
+        routes: {
+          a: { id: "a", steps: [{ id: "c", kind: "custom", description: "Bank", worldpoint }, { id: "bad" }] },
+          b: "not a route",
+        },
+        activeRouteId: 4,
+      },
+      ROUTE_LIBRARY_VERSION
+    );
+    expect(Object.keys(library.routes)).toEqual(["a"]);
+    expect(library.routes.a.name).toBe("Untitled route");
+    expect(library.routes.a.steps.map((s) => s.id)).toEqual(["c"]);
+    expect(library.activeRouteId).toBe("");
+  });
+
+  it("recovers from data that isn't a library at all", () => {
+    expect(migrateRouteLibrary("garbage", 0)).toEqual({ routes: {}, activeRouteId: "" });
+  });
+});
+
+describe("restoreSavedRoute", () => {
+  const descriptions = ["Talk to Juliet.", "Find Romeo.", "Talk to Juliet."];
+  const sourceVars = ["talkToJuliet", "findRomeo", "returnToJuliet"];
+  const withoutSourceVars = makeQuest("Romeo & Juliet", [["Start", descriptions]]);
+  const withSourceVars = makeQuest("Romeo & Juliet", [
+    ["Start", descriptions.map((description, index) => ({ description, sourceVar: sourceVars[index] }))],
+  ]);
+
+  function savedRoute(steps: SavedRoute["steps"], legacyStepIds = false): SavedRoute {
+    return { id: "r", name: "Route", updatedAt: 1, steps, progress: {}, ...(legacyStepIds ? { legacyStepIds } : {}) };
+  }
+
+  it("remaps IDs minted before quest files recorded sourceVar", () => {
+    const before = storeQuests(withoutSourceVars)["Romeo & Juliet"].flatSteps;
+    const after = storeQuests(withSourceVars)["Romeo & Juliet"].flatSteps;
+    expect(new Set(before.map((s) => s.id)).size).toBe(3);
+    expect(after.map((s) => s.id)).not.toEqual(before.map((s) => s.id));
+
+    const { snapshot, stepIdsCurrent } = restoreSavedRoute(
+      savedRoute([before[2], before[0], before[1]]),
+      storeQuests(withSourceVars)
+    );
+    expect(snapshot.steps.map((s) => s.id)).toEqual([after[2].id, after[0].id, after[1].id]);
+    expect(stepIdsCurrent).toBe(true);
+  });
+
+  it("remaps description-only IDs on flagged routes, first unclaimed step first", () => {
+    const quests = storeQuests(withSourceVars);
+    const [talk, find, talkAgain] = quests["Romeo & Juliet"].flatSteps;
+    const legacy = (description: string) => ({ ...talk, id: legacyQuestStepId(description), description });
+    const steps = [legacy("Talk to Juliet."), legacy("Find Romeo."), legacy("Talk to Juliet.")];
+
+    expect(restoreSavedRoute(savedRoute(steps, true), quests).snapshot.steps.map((s) => s.id)).toEqual([
+      talk.id,
+      find.id,
+      talkAgain.id,
+    ]);
+    expect(restoreSavedRoute(savedRoute(steps), quests).snapshot.steps).toEqual(steps);
+  });
+
+  it("reports the remap as incomplete while a quest isn't loaded", () => {
+    const [talk] = storeQuests(withoutSourceVars)["Romeo & Juliet"].flatSteps;
+    const { snapshot, stepIdsCurrent } = restoreSavedRoute(savedRoute([talk], true), {});
+    expect(snapshot.steps).toEqual([talk]);
+    expect(stepIdsCurrent).toBe(false);
+  });
+});
@@ -0,0 +1,258 @@
+import type { StoredQuest } from "../stores/questStore";
+import type { QuestProgress, RouteSnapshot, SavedRoute } from "../types/SavedRoute";
+import { Skill, type WorldPoint } from "../types/QuestData";
+import type { EntityRef, Step, StepItemRequirement } from "../types/Steps";
+import { descriptionKeyedQuestStepId, legacyQuestStepId } from "../factories/StepFactory";
+
+/**
+ * Schema migrations for routes saved in browser storage.
+ *
+ * Bump ROUTE_LIBRARY_VERSION whenever the persisted Step shape changes and add
+ * an entry to `migrations` that upgrades data saved by the previous version.
+ */
+export const ROUTE_LIBRARY_VERSION = 2;
+
+export interface PersistedRouteLibrary {
+  routes: Record<string, SavedRoute>;
+  activeRouteId: string;
+}
+
+type Migration = (library: PersistedRouteLibrary) => PersistedRouteLibrary;
+
+/** Keyed by the version being migrated *from*. */
+const migrations: Record<number, Migration> = {
+  // Quest step IDs became scoped by quest, panel and source variable. Remapping
+  // needs the quest data, so routes are only flagged here; see restoreSavedRoute.
+  1: (library) => ({
+    ...library,
+    routes: Object.fromEntries(
+      Object.entries(isRecord(library.routes) ? library.routes : {}).map(([id, route]) => [
+        id,
+        isRecord(route) ? { ...route, legacyStepIds: true } : route,
+      ])
+    ),
+  }),
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isWorldPoint(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    typeof value.x === "number" &&
+    typeof value.y === "number" &&
+    typeof value.plane === "number"
+  );
+}
+
+/** Validates one persisted step, returning null for anything the app can no longer render. */
+export function normalizeStep(value: unknown): Step | null {
+  if (!isRecord(value)) return null;
+  if (typeof value.id !== "string" || typeof value.description !== "string") return null;
+  if (value.worldpoint !== undefined && !isWorldPoint(value.worldpoint)) return null;
+
+  if (value.kind === "quest" && typeof value.questId === "string") {
+    const entity = normalizeEntity(value.entity);
+    const items = normalizeItems(value.items);
+    return {
+      id: value.id,
+      kind: "quest",
+      questId: value.questId,
+      description: value.description,
+      xpGained: value.xpGained === true,
+      ...(value.worldpoint ? { worldpoint: value.worldpoint as WorldPoint } : {}),
+      ...(entity ? { entity } : {}),
+      ...(items.length > 0 ? { items } : {}),
+      ...(isBranch(value.branch) ? { branch: value.branch } : {}),
+    };
+  }
+
+  if (value.kind === "custom" && value.worldpoint) {
+    const entity = normalizeEntity(value.entity);
+    return {
+      id: value.id,
+      kind: "custom",
+      description: value.description,
+      xpGained: value.xpGained === true,
+      worldpoint: value.worldpoint as WorldPoint,
+      ...(typeof value.notes === "string" && value.notes ? { notes: value.notes } : {}),
+      ...(entity ? { entity } : {}),
+    };
+  }
+
+  if (value.kind === "diary" && typeof value.diaryId === "string" && typeof value.task === "string") {
+    const entity = normalizeEntity(value.entity);
+    const items = normalizeItems(value.items);
+    return {
+      id: value.id,
+      kind: "diary",
+      diaryId: value.diaryId,
+      task: value.task,
+      description: value.description,
+      xpGained: value.xpGained === true,
+      ...(value.worldpoint ? { worldpoint: value.worldpoint as WorldPoint } : {}),
+      ...(entity ? { entity } : {}),
+      ...(items.length > 0 ? { items } : {}),
+    };
+  }
+
+  return null;
+}
+
+function normalizeEntity(value: unknown): EntityRef | undefined {
+  if (!isRecord(value) || typeof value.name !== "string") return undefined;
+  if (value.type !== "npc" && value.type !== "item" && value.type !== "object") return undefined;
+  const ids = Array.isArray(value.ids) ? value.ids.filter((id): id is number => typeof id === "number") : [];
+  return {
+    type: value.type,
+    name: value.name,
+    ids,
+    ...(typeof value.constant === "string" ? { constant: value.constant } : {}),
+  };
+}
+
+function normalizeItems(value: unknown): StepItemRequirement[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item): StepItemRequirement[] => {
+    if (!isRecord(item) || typeof item.name !== "string" || typeof item.quantity !== "number") return [];
+    const ids = Array.isArray(item.ids) ? item.ids.filter((id): id is number => typeof id === "number") : [];
+    return [{
+      name: item.name,
+      quantity: item.quantity,
+      ...(item.equipped === true ? { equipped: true } : {}),
+      ...(typeof item.constant === "string" ? { constant: item.constant } : {}),
+      ids,
+    }];
+  });
+}
+
+function isBranch(value: unknown): value is number[] {
+  return Array.isArray(value) && value.length > 0 && value.every((index) => Number.isInteger(index) && index >= 0);
+}
+
+function isSkill(value: unknown): value is Skill {
+  return typeof value === "string" && value in Skill;
+}
+
+/** Validates a progress map, dropping entries with the wrong shape. */
+export function normalizeProgress(value: unknown): Record<string, QuestProgress> {
+  if (!isRecord(value)) return {};
+  const progress: Record<string, QuestProgress> = {};
+  for (const [questId, entry] of Object.entries(value)) {
+    if (!isRecord(entry) || typeof entry.activeStep !== "number") continue;
+    const lampSkills = Array.isArray(entry.lampSkills) ? entry.lampSkills.filter(isSkill) : [];
+    progress[questId] = {
+      activeStep: entry.activeStep,
+      parallelPanels: entry.parallelPanels !== false,
+      ...(lampSkills.length > 0 ? { lampSkills } : {}),
+    };
+  }
+  return progress;
+}
+
+function normalizeRoute(value: unknown): SavedRoute | null {
+  if (!isRecord(value) || typeof value.id !== "string") return null;
+  const steps = Array.isArray(value.steps) ? value.steps : [];
+  return {
+    id: value.id,
+    name: typeof value.name === "string" ? value.name : "Untitled route",
+    updatedAt: typeof value.updatedAt === "number" ? value.updatedAt : Date.now(),
+    steps: steps.map(normalizeStep).filter((s): s is Step => s !== null),
+    progress: normalizeProgress(value.progress),
+    ...(value.legacyStepIds === true ? { legacyStepIds: true } : {}),
+  };
+}
+
+/**
+ * Maps IDs a quest's steps may have been saved under to their current IDs, in
+ * quest order. Every step has the ID createQuestStepFromRaw gave it while its
+ * quest file had no sourceVar; with `includeLegacy`, also its description-only
+ * legacyQuestStepId. Old IDs shared by several steps list all of them.
+ */
+export function previousStepIds(quest: StoredQuest, includeLegacy: boolean): Map<string, string[]> {
+  const previous = new Map<string, string[]>();
+  const add = (oldId: string, id: string) => previous.set(oldId, [...(previous.get(oldId) ?? []), id]);
+  const occurrences = new Map<string, number>();
+  quest.steps.forEach((panel, panelIndex) => {
+    panel.steps.forEach((raw, index) => {
+      const step = quest.flatSteps[quest.panelStartIndices[panelIndex] + index];
+      const counter = JSON.stringify([panel.panelName, raw.description]);
+      const occurrence = occurrences.get(counter) ?? 0;
+      occurrences.set(counter, occurrence + 1);
+      add(descriptionKeyedQuestStepId(quest.name, panel.panelName, raw.description, occurrence), step.id);
+      if (includeLegacy) add(legacyQuestStepId(raw.description), step.id);
+    });
+  });
+  return previous;
+}
+
+/**
+ * Gives quest steps saved under an earlier ID scheme (see previousStepIds)
+ * their current IDs. Each step takes the first step of its quest with a
+ * matching old ID that no earlier route step has claimed. Steps already using
+ * current IDs, and steps of quests that aren't loaded, are kept as they are;
+ * `complete` is false when any quest wasn't loaded.
+ */
+export function remapStepIds(
+  steps: Step[],
+  quests: Record<string, StoredQuest>,
+  includeLegacy: boolean
+): { steps: Step[]; complete: boolean } {
+  const claimed = new Set<string>();
+  const previousByQuest = new Map<string, Map<string, string[]>>();
+  let complete = true;
+  const remapped = steps.map((step) => {
+    if (step.kind !== "quest") return step;
+    const quest = quests[step.questId];
+    if (!quest) complete = false;
+    if (!quest || quest.flatSteps.some((s) => s.id === step.id)) {
+      claimed.add(step.id);
+      return step;
+    }
+    if (!previousByQuest.has(quest.name)) previousByQuest.set(quest.name, previousStepIds(quest, includeLegacy));
+    const match = previousByQuest.get(quest.name)?.get(step.id)?.find((id) => !claimed.has(id));
+    if (!match) return step;
+    claimed.add(match);
+    return { ...step, id: match };
+  });
+  return { steps: remapped, complete };
+}
+
+/**
+ * The snapshot to apply when a saved route is opened, with its step IDs
+ * remapped against the loaded quest data. Legacy IDs are only considered for
+ * routes flagged by the version 1 migration. `stepIdsCurrent` is true once
+ * every quest the route uses was loaded for the remap, so the flag can go.
+ */
+export function restoreSavedRoute(
+  route: SavedRoute,
+  quests: Record<string, StoredQuest>
+): { snapshot: RouteSnapshot; stepIdsCurrent: boolean } {
+  const { steps, complete } = remapStepIds(route.steps, quests, route.legacyStepIds === true);
+  return { snapshot: { steps, progress: route.progress }, stepIdsCurrent: complete };
+}
+
+/**
+ * Upgrades persisted library data from `fromVersion` to ROUTE_LIBRARY_VERSION,
+ * then drops any routes or steps that still fail validation.
+ */
+export function migrateRouteLibrary(persisted: unknown, fromVersion: number): PersistedRouteLibrary {
+  let library: PersistedRouteLibrary = isRecord(persisted)
+    ? (persisted as unknown as PersistedRouteLibrary)
+    : { routes: {}, activeRouteId: "" };
+
+  for (let version = fromVersion; version < ROUTE_LIBRARY_VERSION; version++) {
+    const migrate = migrations[version];
+    if (migrate) library = migrate(library);
+  }
+
+  const routes: Record<string, SavedRoute> = {};
+  for (const value of Object.values(isRecord(library.routes) ? library.routes : {})) {
+    const route = normalizeRoute(value);
+    if (route) routes[route.id] = route;
+  }
+
+  return { routes, activeRouteId: typeof library.activeRouteId === "string" ? library.activeRouteId : "" };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { createCustomStep } from "../factories/StepFactory";
+import { makeQuest, point, storeQuests } from "../test/fixtures";
+import { buildOptimiserInput, optimiseRouteOrder } from "./routeOptimiser";
+
+const at = (description: string, x: number, y: number) => ({ description, worldpoint: point(x, y) });
+
+describe("routeOptimiser", () => {
+  it("groups nearby steps while keeping panel order", () => {
+    const quests = storeQuests(
+      makeQuest("Near and Far", [
+        ["West", [at("West one", 3000, 3200), at("West two", 3010, 3200)]],
+        ["East", [at("East one", 3300, 3200), at("East two", 3310, 3200)]],
+      ])
+    );
+    const [westOne, westTwo, eastOne, eastTwo] = quests["Near and Far"].flatSteps;
+    const route = [westOne, eastOne, westTwo, eastTwo];
+
+    const input = buildOptimiserInput(route, quests);
+    expect(input.predecessors).toEqual([[], [], [0], [1]]);
+
+    const { order } = optimiseRouteOrder(input);
+    expect(order.map((i) => route[i].id)).toEqual([westOne.id, westTwo.id, eastOne.id, eastTwo.id]);
+  });
+
+  it("keeps custom steps in place", () => {
+    const quests = storeQuests(makeQuest("Errands", [["A", [at("Near", 3000, 3200)]], ["B", [at("Far", 3300, 3200)]]]));
+    const [near, far] = quests.Errands.flatSteps;
+    const bank = createCustomStep({ description: "Bank", worldpoint: point(3300, 3210) });
+    const route = [far, bank, near];
+
+    const { order } = optimiseRouteOrder(buildOptimiserInput(route, quests));
+    expect(order).toEqual([0, 1, 2]);
+  });
+
+  it("never moves a quest ahead of a prerequisite finished in the route", () => {
+    const quests = storeQuests(
+      makeQuest("Prerequisite", [["Main", [at("Start far away", 3300, 3200), at("Finish far away", 3310, 3200)]]]),
+      makeQuest("Follow-up", [["Main", [at("Start nearby", 3000, 3200)]]], { questRequirements: ["prerequisite"] })
+    );
+    const [start, finish] = quests.Prerequisite.flatSteps;
+    const [followUp] = quests["Follow-up"].flatSteps;
+    const route = [start, finish, followUp];
+
+    const input = buildOptimiserInput(route, quests);
+    expect(input.predecessors[2]).toEqual([0, 1]);
+    expect(optimiseRouteOrder(input).order).toEqual([0, 1, 2]);
+  });
+
+  it("doesn't constrain quests whose prerequisite isn't finished in the route", () => {
+    const quests = storeQuests(
+      makeQuest("Prerequisite", [["Main", [at("Start", 3300, 3200), at("Finish", 3310, 3200)]]]),
+      makeQuest("Follow-up", [["Main", [at("Start nearby", 3000, 3200)]]], { questRequirements: ["Prerequisite"] })
+    );
+    const [start] = quests.Prerequisite.flatSteps;
+    const [followUp] = quests["Follow-up"].flatSteps;
+
+    expect(buildOptimiserInput([start, followUp], quests).predecessors).toEqual([[], []]);
+  });
+});
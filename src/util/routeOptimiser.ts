@@ -0,0 +1,214 @@
+import type { StoredQuest } from "../stores/questStore";
+import type { WorldPoint } from "../types/QuestData";
+import type { Step } from "../types/Steps";
+import { buildQuestGraph, findQuestNode } from "./questGraph";
+import { getFlatIndex, mustPrecede } from "./routeOrder";
+import { computeRouteLegs, getUnmeasurableReason, tileDistance } from "./travel";
+
+/**
+ * Route order optimisation.
+ *
+ * The input is plain data so it can be posted to a web worker: one entry per
+ * route step with its (possibly inherited) position and the route indices of
+ * the steps that must come before it, from the quest's own step order and from
+ * its prerequisite quests. Custom steps are anchors — quest steps are only
+ * reordered between them, so a "bank" stop keeps its place.
+ *
+ * The search is a nearest-neighbour construction followed by single-step
+ * relocation passes. Plane changes are costed by their flat distance and
+ * surface/underground crossings by UNDERGROUND_CROSSING_COST, since neither
+ * can be measured directly.
+ */
+
+export const UNDERGROUND_CROSSING_COST = 100;
+
+/** Relocation passes stop early once a pass finds no improvement. */
+const MAX_IMPROVEMENT_PASSES = 50;
+
+export interface OptimiserInput {
+  points: (WorldPoint | null)[];
+  /** predecessors[i] lists route indices that must stay before step i. */
+  predecessors: number[][];
+  anchors: boolean[];
+}
+
+export interface OptimiserResult {
+  /** New route order as indices into the original route. */
+  order: number[];
+}
+
+/**
+ * Builds the worker input for the current route and quest ordering modes.
+ * Every step of a quest also stays after all route steps of its direct
+ * prerequisites, when the prerequisite's final step is in the route.
+ */
+export function buildOptimiserInput(route: Step[], quests: Record<string, StoredQuest>): OptimiserInput {
+  const legs = computeRouteLegs(route, quests);
+  const flatIndices = route.map((step) => (step.kind === "quest" ? getFlatIndex(quests[step.questId], step.id) : -1));
+  const graph = buildQuestGraph(quests);
+
+  const questSteps = new Map<string, number[]>();
+  const finishedQuests = new Set<string>();
+  route.forEach((step, i) => {
+    if (step.kind !== "quest" || flatIndices[i] === -1) return;
+    questSteps.set(step.questId, [...(questSteps.get(step.questId) ?? []), i]);
+    if (flatIndices[i] === quests[step.questId].flatSteps.length - 1) finishedQuests.add(step.questId);
+  });
+
+  const predecessors = route.map((step, i) => {
+    if (step.kind !== "quest" || flatIndices[i] === -1) return [];
+    const quest = quests[step.questId];
+    const ownSteps = (questSteps.get(step.questId) ?? []).filter(
+      (j) => j !== i && mustPrecede(quest, flatIndices[j], flatIndices[i])
+    );
+    const prerequisiteSteps = (findQuestNode(graph, step.questId)?.prerequisites ?? [])
+      .filter((name) => name !== step.questId && finishedQuests.has(name))
+      .flatMap((name) => questSteps.get(name) ?? []);
+    return [...ownSteps, ...prerequisiteSteps];
+  });
+
+  return {
+    points: legs.map((leg) => leg.worldpoint ?? null),
+    predecessors,
+    anchors: route.map((step) => step.kind === "custom"),
+  };
+}
+
+function legCost(a: WorldPoint, b: WorldPoint): number {
+  return getUnmeasurableReason(a, b) === "dungeon" ? UNDERGROUND_CROSSING_COST : tileDistance(a, b);
+}
+
+/** Travel cost of visiting `order` in sequence from `start`, finishing at `end` when given. */
+function sequenceCost(
+  order: number[],
+  points: (WorldPoint | null)[],
+  start: WorldPoint | null,
+  end: WorldPoint | null
+): number {
+  let cost = 0;
+  let previous = start;
+  for (const index of order) {
+    const point = points[index];
+    if (!point) continue;
+    if (previous) cost += legCost(previous, point);
+    previous = point;
+  }
+  if (previous && end) cost += legCost(previous, end);
+  return cost;
+}
+
+function lastPoint(order: number[], points: (WorldPoint | null)[], fallback: WorldPoint | null): WorldPoint | null {
+  for (let i = order.length - 1; i >= 0; i--) {
+    const point = points[order[i]];
+    if (point) return point;
+  }
+  return fallback;
+}
+
+/** True when every step in `order` comes after its predecessors that are also in `order`. */
+function respectsPredecessors(order: number[], predecessors: number[][]): boolean {
+  const position = new Map(order.map((index, pos) => [index, pos]));
+  return order.every((index, pos) =>
+    predecessors[index].every((p) => {
+      const before = position.get(p);
+      return before === undefined || before < pos;
+    })
+  );
+}
+
+/** Nearest-neighbour construction: repeatedly visits the closest step whose predecessors are placed. */
+function nearestNeighbourOrder(segment: number[], input: OptimiserInput, start: WorldPoint | null): number[] {
+  const inSegment = new Set(segment);
+  const placed = new Set<number>();
+  const order: number[] = [];
+  let current = start;
+
+  while (order.length < segment.length) {
+    let best = -1;
+    let bestCost = Infinity;
+    for (const index of segment) {
+      if (placed.has(index)) continue;
+      if (input.predecessors[index].some((p) => inSegment.has(p) && !placed.has(p))) continue;
+      const point = input.points[index];
+      const cost = point && current ? legCost(current, point) : 0;
+      if (cost < bestCost) {
+        best = index;
+        bestCost = cost;
+      }
+    }
+    // Only reachable with cyclic constraints; keep the remaining steps as they were.
+    if (best === -1) return [...order, ...segment.filter((index) => !placed.has(index))];
+
+    placed.add(best);
+    order.push(best);
+    current = input.points[best] ?? current;
+  }
+
+  return order;
+}
+
+/** Moves single steps to other positions while that lowers the cost and keeps every constraint. */
+function improveByRelocation(
+  order: number[],
+  input: OptimiserInput,
+  start: WorldPoint | null,
+  end: WorldPoint | null
+): number[] {
+  let best = order;
+  let bestCost = sequenceCost(best, input.points, start, end);
+
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+    for (let from = 0; from < best.length; from++) {
+      for (let to = 0; to < best.length; to++) {
+        if (from === to) continue;
+        const candidate = [...best];
+        const [moved] = candidate.splice(from, 1);
+        candidate.splice(to, 0, moved);
+        const cost = sequenceCost(candidate, input.points, start, end);
+        if (cost < bestCost && respectsPredecessors(candidate, input.predecessors)) {
+          best = candidate;
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return best;
+}
+
+/** Optimises each run of quest steps between anchors; never returns an order costlier than the input. */
+export function optimiseRouteOrder(input: OptimiserInput): OptimiserResult {
+  const order: number[] = [];
+  let segment: number[] = [];
+  let position: WorldPoint | null = null;
+
+  const flush = (end: WorldPoint | null) => {
+    if (segment.length === 0) return;
+    const greedy = nearestNeighbourOrder(segment, input, position);
+    const seed =
+      respectsPredecessors(greedy, input.predecessors) &&
+      sequenceCost(greedy, input.points, position, end) < sequenceCost(segment, input.points, position, end)
+        ? greedy
+        : segment;
+    const optimised = improveByRelocation(seed, input, position, end);
+    order.push(...optimised);
+    position = lastPoint(optimised, input.points, position);
+    segment = [];
+  };
+
+  input.points.forEach((point, index) => {
+    if (!input.anchors[index]) {
+      segment.push(index);
+      return;
+    }
+    flush(point);
+    order.push(index);
+    position = point ?? position;
+  });
+  flush(null);
+
+  return { order };
+}
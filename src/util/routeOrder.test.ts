@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { useQuestStore, type StoredQuest } from "../stores/questStore";
+import { createCustomStep } from "../factories/StepFactory";
+import { makeQuest, point, storeQuests } from "../test/fixtures";
+import { findOrderViolation, getFlatIndex, getPanelIndex, mustPrecede } from "./routeOrder";
+
+describe("routeOrder", () => {
+  let quest: StoredQuest;
+
+  beforeEach(() => {
+    ({ "Cook's Assistant": quest } = storeQuests(
+      makeQuest("Cook's Assistant", [
+        ["Start", ["Talk to the cook", "Get an egg"]],
+        ["Flour", ["Pick wheat", "Grind the wheat"]],
+        ["Milk", ["Milk a cow"]],
+      ])
+    ));
+  });
+
+  it("maps flat indices to panels", () => {
+    expect([0, 1, 2, 3, 4].map((i) => getPanelIndex(quest, i))).toEqual([0, 0, 1, 1, 2]);
+  });
+
+  it("keeps steps within a panel ordered in parallel mode", () => {
+    expect(mustPrecede(quest, 2, 3)).toBe(true);
+    expect(mustPrecede(quest, 1, 2)).toBe(false);
+    expect(mustPrecede(quest, 3, 2)).toBe(false);
+  });
+
+  it("orders the whole quest in sequential mode", () => {
+    useQuestStore.getState().actions.setParallelPanels(quest.name, false);
+    const sequential = useQuestStore.getState().quests[quest.name];
+    expect(mustPrecede(sequential, 1, 2)).toBe(true);
+    expect(mustPrecede(sequential, 0, 4)).toBe(true);
+    expect(mustPrecede(sequential, 4, 0)).toBe(false);
+  });
+
+  it("finds flat indices by step id", () => {
+    expect(getFlatIndex(quest, quest.flatSteps[3].id)).toBe(3);
+    expect(getFlatIndex(quest, "missing")).toBe(-1);
+    expect(getFlatIndex(undefined, quest.flatSteps[0].id)).toBe(-1);
+  });
+
+  it("accepts interleaved panels in parallel mode", () => {
+    const [talk, egg, wheat, grind, milk] = quest.flatSteps;
+    const custom = createCustomStep({ description: "Bank", worldpoint: point(3200, 3200) });
+    const route = [wheat, talk, milk, custom, grind, egg];
+    expect(findOrderViolation(route, { [quest.name]: quest })).toBeNull();
+  });
+
+  it("reports a step placed before the step it depends on", () => {
+    const [talk, egg, wheat, grind] = quest.flatSteps;
+    const violation = findOrderViolation([talk, grind, egg, wheat], { [quest.name]: quest });
+    expect(violation).toEqual({ step: grind, requires: wheat });
+  });
+
+  it("ignores steps of quests that are not loaded", () => {
+    const [talk, egg] = quest.flatSteps;
+    expect(findOrderViolation([egg, talk], {})).toBeNull();
+  });
+});
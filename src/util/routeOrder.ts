@@ -0,0 +1,64 @@
+import type { StoredQuest } from "../stores/questStore";
+import type { QuestStep, Step } from "../types/Steps";
+
+/**
+ * Ordering rules for quest steps inside a route.
+ *
+ * Steps within a panel are always sequential. When a quest is in sequential
+ * mode the whole quest is one sequence; in parallel mode panels can be
+ * interleaved freely with each other.
+ */
+
+export interface OrderViolation {
+  /** Step that would end up too early in the route. */
+  step: QuestStep;
+  /** Earlier quest step that must come first. */
+  requires: QuestStep;
+}
+
+/** Returns the panel index containing a flat step index. */
+export function getPanelIndex(quest: StoredQuest, flatIndex: number): number {
+  let panelIndex = 0;
+  for (let i = 0; i < quest.panelStartIndices.length; i++) {
+    if (quest.panelStartIndices[i] <= flatIndex) panelIndex = i;
+    else break;
+  }
+  return panelIndex;
+}
+
+/** True when the step at `earlier` must appear in the route before the step at `later`. */
+export function mustPrecede(quest: StoredQuest, earlier: number, later: number): boolean {
+  if (earlier >= later) return false;
+  if (!quest.parallelPanels) return true;
+  return getPanelIndex(quest, earlier) === getPanelIndex(quest, later);
+}
+
+/** Flat index of a quest step within its quest, or -1 when not found. */
+export function getFlatIndex(quest: StoredQuest | undefined, stepId: string): number {
+  return quest?.flatSteps.findIndex((s) => s.id === stepId) ?? -1;
+}
+
+/**
+ * Returns the first place in `route` where a quest step appears before an
+ * earlier step of the same quest that it depends on, or null if the order is valid.
+ */
+export function findOrderViolation(
+  route: Step[],
+  quests: Record<string, StoredQuest>
+): OrderViolation | null {
+  const seen: Record<string, { flatIndex: number; step: QuestStep }[]> = {};
+
+  for (const step of route) {
+    if (step.kind !== "quest") continue;
+    const quest = quests[step.questId];
+    const flatIndex = getFlatIndex(quest, step.id);
+    if (!quest || flatIndex === -1) continue;
+
+    const previous = (seen[step.questId] ??= []);
+    const blocker = previous.find((p) => mustPrecede(quest, flatIndex, p.flatIndex));
+    if (blocker) return { step: blocker.step, requires: step };
+    previous.push({ flatIndex, step });
+  }
+
+  return null;
+}
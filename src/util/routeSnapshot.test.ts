@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { legacyQuestStepId } from "../factories/StepFactory";
+import { useRouteLibraryStore } from "../stores/routeLibraryStore";
+import { makeQuest, storeQuests } from "../test/fixtures";
+import type { SavedRoute } from "../types/SavedRoute";
+import { captureRouteSnapshot, openSavedRoute } from "./routeSnapshot";
+
+describe("openSavedRoute", () => {
+  const cook = makeQuest("Cook's Assistant", [["Start", ["Talk to the cook"]]]);
+  const sheep = makeQuest("Sheep Shearer", [["Wool", ["Shear a sheep"]]]);
+  let route: SavedRoute;
+
+  beforeEach(() => {
+    const [talk] = storeQuests(cook)["Cook's Assistant"].flatSteps;
+    const [shear] = storeQuests(sheep)["Sheep Shearer"].flatSteps;
+    route = {
+      id: "r",
+      name: "Route",
+      updatedAt: 1,
+      progress: {},
+      legacyStepIds: true,
+      steps: [
+        { ...talk, id: legacyQuestStepId("Talk to the cook") },
+        { ...shear, id: legacyQuestStepId("Shear a sheep") },
+      ],
+    };
+    useRouteLibraryStore.setState({ routes: { r: route }, activeRouteId: "r" });
+  });
+
+  const saved = () => useRouteLibraryStore.getState().routes.r;
+
+  it("keeps the legacy flag through saves until every quest was remapped", () => {
+    storeQuests(cook);
+    openSavedRoute(route);
+    useRouteLibraryStore.getState().actions.saveRoute("r", captureRouteSnapshot());
+    expect(saved().legacyStepIds).toBe(true);
+    expect(saved().steps[1].id).toBe(legacyQuestStepId("Shear a sheep"));
+
+    const quests = storeQuests(cook, sheep);
+    openSavedRoute(saved());
+    expect(saved().legacyStepIds).toBeUndefined();
+    expect(saved().steps.map((s) => s.id)).toEqual([
+      quests["Cook's Assistant"].flatSteps[0].id,
+      quests["Sheep Shearer"].flatSteps[0].id,
+    ]);
+  });
+});
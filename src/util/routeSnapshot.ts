@@ -0,0 +1,54 @@
+import { useQuestStore } from "../stores/questStore";
+import { useRouteLibraryStore } from "../stores/routeLibraryStore";
+import { useRouteStore } from "../stores/routeStore";
+import type { QuestProgress, RouteSnapshot, SavedRoute } from "../types/SavedRoute";
+import type { Step } from "../types/Steps";
+import { restoreSavedRoute } from "./routeMigrations";
+
+/**
+ * Reads the current route and quest progress out of routeStore and questStore.
+ * Quests still at their defaults are omitted to keep snapshots small.
+ */
+export function captureRouteSnapshot(): RouteSnapshot {
+  const { route } = useRouteStore.getState();
+  const { quests } = useQuestStore.getState();
+
+  const progress: Record<string, QuestProgress> = {};
+  for (const [id, quest] of Object.entries(quests)) {
+    const activeStep = quest.activeStep ?? 0;
+    if (activeStep === 0 && quest.parallelPanels && quest.lampSkills.length === 0) continue;
+    progress[id] = {
+      activeStep,
+      parallelPanels: quest.parallelPanels,
+      ...(quest.lampSkills.length > 0 ? { lampSkills: quest.lampSkills } : {}),
+    };
+  }
+
+  return { steps: route, progress };
+}
+
+/** Quest names a route needs loaded before it is applied, so its progress isn't dropped. */
+export function referencedQuestIds(steps: Step[], progress: Record<string, QuestProgress>): string[] {
+  const ids = new Set(Object.keys(progress));
+  for (const step of steps) if (step.kind === "quest") ids.add(step.questId);
+  return [...ids];
+}
+
+/** Writes a snapshot back into routeStore and questStore in one go. */
+export function applyRouteSnapshot(snapshot: RouteSnapshot): void {
+  useRouteStore.getState().actions.setRoute(snapshot.steps);
+  useQuestStore.getState().actions.applyProgress(snapshot.progress);
+}
+
+/**
+ * Applies a saved route with its step IDs remapped against the loaded quests.
+ * A route flagged with legacyStepIds only loses the flag once the remap
+ * covered every quest it uses.
+ */
+export function openSavedRoute(route: SavedRoute): void {
+  const { snapshot, stepIdsCurrent } = restoreSavedRoute(route, useQuestStore.getState().quests);
+  applyRouteSnapshot(snapshot);
+  if (route.legacyStepIds && stepIdsCurrent) {
+    useRouteLibraryStore.getState().actions.markStepIdsCurrent(route.id, snapshot.steps);
+  }
+}
@@ -0,0 +1,122 @@
+import type { StoredQuest } from "../stores/questStore";
+import type { NameToIds } from "../stores/referenceDataStore";
+import type { Step } from "../types/Steps";
+
+/**
+ * Shopping lists built from quest item requirements.
+ *
+ * The route is split into sections at custom steps that look like bank stops.
+ * Each section's list covers the quests first started inside it, so it is what
+ * to withdraw before leaving that bank.
+ */
+
+export interface ItemRequirement {
+  name: string;
+  quantity: number;
+}
+
+export interface ShoppingListItem {
+  name: string;
+  quantity: number;
+  /** IDs from items-summary.json; empty when the name isn't found. */
+  ids: number[];
+  /** Quests in the section that need the item. */
+  quests: string[];
+}
+
+export interface RouteSection {
+  /** First step index in the section; the bank stop itself for every section but the first. */
+  start: number;
+  /** One past the last step index. */
+  end: number;
+  label: string;
+}
+
+const BANK_PATTERN = /\bbank/i;
+
+/** "2x Rope", "Rope x2" and "Rope (2)" all read as 2 Rope; anything else as 1. */
+export function parseItemRequirement(text: string): ItemRequirement | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  const leading = trimmed.match(/^(\d[\d,]*)\s*x?\s+(.+)$/i);
+  if (leading) return { name: leading[2].trim(), quantity: Number(leading[1].replace(/,/g, "")) };
+  const trailing = trimmed.match(/^(.+?)\s*(?:x\s*(\d[\d,]*)|\((\d[\d,]*)\))$/i);
+  if (trailing) return { name: trailing[1].trim(), quantity: Number((trailing[2] ?? trailing[3]).replace(/,/g, "")) };
+  return { name: trimmed, quantity: 1 };
+}
+
+/** Custom steps whose description or entity mentions a bank. */
+export function isBankStep(step: Step): boolean {
+  return step.kind === "custom" && (BANK_PATTERN.test(step.description) || BANK_PATTERN.test(step.entity?.name ?? ""));
+}
+
+/** Splits the route at bank stops. A route with no bank stops is one section. */
+export function splitRouteSections(route: Step[]): RouteSection[] {
+  const sections: RouteSection[] = [];
+  let start = 0;
+  let label = route.length > 0 && isBankStep(route[0]) ? `1. ${route[0].description}` : "Start of route";
+
+  route.forEach((step, index) => {
+    if (!isBankStep(step) || index === 0) return;
+    sections.push({ start, end: index, label });
+    start = index;
+    label = `${index + 1}. ${step.description}`;
+  });
+  sections.push({ start, end: route.length, label });
+  return sections;
+}
+
+/** Case-insensitive lookup into the item table. */
+function createItemLookup(items: NameToIds): (name: string) => { name: string; ids: number[] } | undefined {
+  const byKey = new Map(Object.entries(items).map(([name, ids]) => [name.toLowerCase(), { name, ids }]));
+  return (name) => byKey.get(name.toLowerCase());
+}
+
+/** IDs of the quests first started in steps [start, end), in route order. */
+export function questsStartedInSection(route: Step[], start: number, end: number): string[] {
+  const seen = new Set<string>();
+  const started: string[] = [];
+  route.forEach((step, index) => {
+    if (step.kind !== "quest" || seen.has(step.questId)) return;
+    seen.add(step.questId);
+    if (index >= start && index < end) started.push(step.questId);
+  });
+  return started;
+}
+
+/**
+ * Item requirements of every quest first started in steps [start, end),
+ * merged by item name with quantities summed across quests.
+ */
+export function buildShoppingList(
+  route: Step[],
+  quests: Record<string, StoredQuest>,
+  items: NameToIds,
+  start: number,
+  end: number
+): ShoppingListItem[] {
+  const lookup = createItemLookup(items);
+  const merged = new Map<string, ShoppingListItem>();
+
+  for (const questId of questsStartedInSection(route, start, end)) {
+    const quest = quests[questId];
+    if (!quest) continue;
+
+    for (const text of quest.itemRequirements) {
+      const requirement = parseItemRequirement(text);
+      if (!requirement) continue;
+      const known = lookup(requirement.name);
+      const name = known?.name ?? requirement.name;
+      const key = name.toLowerCase();
+      const existing = merged.get(key);
+      if (existing) {
+        existing.quantity += requirement.quantity;
+        if (!existing.quests.includes(quest.name)) existing.quests.push(quest.name);
+      } else {
+        merged.set(key, { name, quantity: requirement.quantity, ids: known?.ids ?? [], quests: [quest.name] });
+      }
+    }
+  }
+
+  return [...merged.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
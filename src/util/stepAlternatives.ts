@@ -0,0 +1,42 @@
+import type { StoredQuest } from "../stores/questStore";
+import type { QuestStep, RawStep, StepAlternative } from "../types/Steps";
+import { createQuestStepFromAlternative } from "../factories/StepFactory";
+
+/** The raw step behind a flat step index, which carries the ConditionalStep branches. */
+export function rawStepAt(quest: StoredQuest, flatIndex: number): RawStep | undefined {
+  for (let panel = quest.panelStartIndices.length - 1; panel >= 0; panel--) {
+    const start = quest.panelStartIndices[panel];
+    if (flatIndex >= start) return quest.steps[panel]?.steps[flatIndex - start];
+  }
+  return undefined;
+}
+
+/** Follows a branch path (indices into nested `alternatives`) to the branch it names. */
+export function findAlternative(alternatives: StepAlternative[] | undefined, branch: number[]): StepAlternative | undefined {
+  let current: StepAlternative | undefined;
+  let options = alternatives;
+  for (const index of branch) {
+    current = options?.[index];
+    if (!current) return undefined;
+    options = current.alternatives;
+  }
+  return current;
+}
+
+/** "If hasRope" or "Otherwise" for the default branch. */
+export function describeCondition(alternative: StepAlternative): string {
+  return alternative.condition === null ? "Otherwise" : `If ${alternative.condition}`;
+}
+
+/**
+ * The route step for `branch` of the quest step with `stepId`, or the quest
+ * step itself when no branch is given or the branch no longer exists.
+ * Returns undefined only when the quest has no step with that ID.
+ */
+export function resolveBranchStep(quest: StoredQuest, stepId: string, branch?: number[]): QuestStep | undefined {
+  const flatIndex = quest.flatSteps.findIndex((step) => step.id === stepId);
+  const step = quest.flatSteps[flatIndex];
+  if (!step || !branch || branch.length === 0) return step;
+  const alternative = findAlternative(rawStepAt(quest, flatIndex)?.alternatives, branch);
+  return alternative ? createQuestStepFromAlternative(step, alternative, branch) : step;
+}
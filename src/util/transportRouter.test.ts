@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { Transport } from "../types/Transport";
+import { point } from "../test/fixtures";
+import { expandTransportData, planTransports, planTravel } from "./transportRouter";
+
+const lumbridge = point(3222, 3218);
+const varrock = point(3212, 3424);
+const varrockTeleport: Transport = {
+  id: "varrock-teleport",
+  kind: "teleport",
+  name: "Varrock Teleport",
+  origin: null,
+  destination: point(3213, 3424),
+  requirements: [{ type: "skill", skill: "MAGIC", level: 25 }],
+  ticks: 5,
+};
+
+describe("planTravel", () => {
+  it("walks at running speed when there are no transports", () => {
+    const plan = planTravel(lumbridge, varrock, []);
+    expect(plan?.ticks).toBe(103);
+    expect(plan?.segments).toEqual([{ kind: "walk", from: lumbridge, to: varrock, tiles: 206, ticks: 103 }]);
+  });
+
+  it("takes a teleport when it is cheaper, then walks the rest", () => {
+    const plan = planTravel(lumbridge, varrock, [varrockTeleport]);
+    expect(plan?.ticks).toBe(6);
+    expect(planTransports(plan)).toEqual([varrockTeleport]);
+    expect(plan?.segments[1]).toMatchObject({ kind: "walk", tiles: 1 });
+  });
+
+  it("skips transports the filter rejects", () => {
+    const plan = planTravel(lumbridge, varrock, [varrockTeleport], () => false);
+    expect(planTransports(plan)).toEqual([]);
+  });
+
+  it("uses the given walking estimate for the direct route", () => {
+    expect(planTravel(lumbridge, varrock, [], undefined, 150)?.ticks).toBe(150);
+  });
+
+  it("returns null when nothing connects the two points", () => {
+    expect(planTravel(lumbridge, point(3222, 3218, 1), [])).toBeNull();
+  });
+});
+
+describe("expandTransportData", () => {
+  it("links every ordered pair of network stops", () => {
+    const transports = expandTransportData({
+      transports: [varrockTeleport],
+      networks: [
+        {
+          id: "trees",
+          kind: "spirit-tree",
+          name: "Spirit tree",
+          stops: [
+            { name: "Grand Exchange", worldpoint: point(3185, 3508) },
+            { name: "Tree Gnome Village", worldpoint: point(2542, 3170) },
+            { name: "Tree Gnome Stronghold", worldpoint: point(2461, 3444) },
+          ],
+          requirements: [{ type: "quest", quest: "Tree Gnome Village" }],
+          ticks: 10,
+        },
+      ],
+    });
+    expect(transports).toHaveLength(7);
+    expect(transports[0]).toBe(varrockTeleport);
+    expect(transports.slice(1).map((t) => t.id)).toEqual([
+      "trees:Grand Exchange->Tree Gnome Village",
+      "trees:Grand Exchange->Tree Gnome Stronghold",
+      "trees:Tree Gnome Village->Grand Exchange",
+      "trees:Tree Gnome Village->Tree Gnome Stronghold",
+      "trees:Tree Gnome Stronghold->Grand Exchange",
+      "trees:Tree Gnome Stronghold->Tree Gnome Village",
+    ]);
+    expect(transports[1]).toMatchObject({ name: "Spirit tree to Tree Gnome Village", origin: point(3185, 3508), ticks: 10 });
+  });
+});
@@ -0,0 +1,162 @@
+import type { WorldPoint } from "../types/QuestData";
+import type { Transport, TransportData } from "../types/Transport";
+import { getUnmeasurableReason, RUN_TILES_PER_TICK, ticksForDistance, tileDistance, type RouteLeg } from "./travel";
+
+/**
+ * Cheapest travel between two points mixing walking and transports.
+ *
+ * Dijkstra over a small dense graph: the two endpoints plus every transport
+ * origin and destination. Walking links any two nodes that can be measured in
+ * a straight line (same plane, same side of the underground boundary) and is
+ * costed at running speed; each usable transport adds a link from its origin,
+ * or from every node for teleports that work anywhere.
+ */
+
+export type TravelSegment =
+  | { kind: "walk"; from: WorldPoint; to: WorldPoint; tiles: number; ticks: number }
+  | { kind: "transport"; transport: Transport; ticks: number };
+
+export interface TravelPlan {
+  ticks: number;
+  segments: TravelSegment[];
+}
+
+export type TransportFilter = (transport: Transport) => boolean;
+
+/** Expands networks into one transport per ordered pair of stops. */
+export function expandTransportData(data: TransportData): Transport[] {
+  const expanded = data.networks.flatMap((network) =>
+    network.stops.flatMap((from, i) =>
+      network.stops
+        .filter((_, j) => j !== i)
+        .map((to): Transport => ({
+          id: `${network.id}:${from.name}->${to.name}`,
+          kind: network.kind,
+          name: `${network.name} to ${to.name}`,
+          origin: from.worldpoint,
+          destination: to.worldpoint,
+          requirements: network.requirements,
+          ticks: network.ticks,
+        }))
+    )
+  );
+  return [...data.transports, ...expanded];
+}
+
+function pointKey(point: WorldPoint): string {
+  return `${point.x},${point.y},${point.plane}`;
+}
+
+function walkTicks(a: WorldPoint, b: WorldPoint): number | null {
+  if (getUnmeasurableReason(a, b)) return null;
+  return ticksForDistance(tileDistance(a, b), RUN_TILES_PER_TICK);
+}
+
+type Link = { to: number; ticks: number; transport?: Transport };
+
+/**
+ * Returns the cheapest plan from `from` to `to`, or null when neither walking
+ * nor any transport connects them. `directWalkTicks` replaces the straight-line
+ * estimate for walking the whole way, e.g. with a collision-map path.
+ */
+export function planTravel(
+  from: WorldPoint,
+  to: WorldPoint,
+  transports: Transport[],
+  canUse: TransportFilter = () => true,
+  directWalkTicks?: number
+): TravelPlan | null {
+  const usable = transports.filter(canUse);
+  const nodes: WorldPoint[] = [];
+  const nodeIndex = new Map<string, number>();
+  const addNode = (point: WorldPoint) => {
+    const key = pointKey(point);
+    let index = nodeIndex.get(key);
+    if (index === undefined) {
+      index = nodes.push(point) - 1;
+      nodeIndex.set(key, index);
+    }
+    return index;
+  };
+
+  const start = addNode(from);
+  const goal = addNode(to);
+  for (const transport of usable) {
+    if (transport.origin) addNode(transport.origin);
+    addNode(transport.destination);
+  }
+
+  const links: Link[][] = nodes.map((a, i) =>
+    nodes.flatMap((b, j) => {
+      const ticks = i === j ? null : i === start && j === goal && directWalkTicks !== undefined ? directWalkTicks : walkTicks(a, b);
+      return ticks === null ? [] : [{ to: j, ticks }];
+    })
+  );
+  for (const transport of usable) {
+    const destination = nodeIndex.get(pointKey(transport.destination))!;
+    const sources = transport.origin ? [nodeIndex.get(pointKey(transport.origin))!] : nodes.map((_, i) => i);
+    for (const source of sources) {
+      if (source !== destination) links[source].push({ to: destination, ticks: transport.ticks, transport });
+    }
+  }
+
+  const cost = nodes.map(() => Infinity);
+  const previous: ({ node: number; link: Link } | null)[] = nodes.map(() => null);
+  const visited = new Set<number>();
+  cost[start] = 0;
+
+  while (visited.size < nodes.length) {
+    let current = -1;
+    for (let i = 0; i < nodes.length; i++) {
+      if (!visited.has(i) && cost[i] < Infinity && (current === -1 || cost[i] < cost[current])) current = i;
+    }
+    if (current === -1 || current === goal) break;
+    visited.add(current);
+
+    for (const link of links[current]) {
+      const next = cost[current] + link.ticks;
+      if (next < cost[link.to]) {
+        cost[link.to] = next;
+        previous[link.to] = { node: current, link };
+      }
+    }
+  }
+
+  if (cost[goal] === Infinity) return null;
+
+  const segments: TravelSegment[] = [];
+  for (let node = goal; previous[node]; node = previous[node]!.node) {
+    const { node: source, link } = previous[node]!;
+    segments.unshift(
+      link.transport
+        ? { kind: "transport", transport: link.transport, ticks: link.ticks }
+        : { kind: "walk", from: nodes[source], to: nodes[node], tiles: tileDistance(nodes[source], nodes[node]), ticks: link.ticks }
+    );
+  }
+
+  return { ticks: cost[goal], segments };
+}
+
+/**
+ * Adds the cheapest travel plan to every leg that has a start and end position.
+ * `filterFor` picks the usable transports per leg, e.g. from the player's state at that point.
+ */
+export function attachTravelPlans(
+  legs: RouteLeg[],
+  transports: Transport[],
+  filterFor?: (legIndex: number) => TransportFilter
+): RouteLeg[] {
+  return legs.map((leg, index) =>
+    leg.from && leg.worldpoint
+      ? {
+          ...leg,
+          plan: planTravel(leg.from, leg.worldpoint, transports, filterFor?.(index), leg.pathed ? leg.runTicks ?? undefined : undefined),
+        }
+      : leg
+  );
+}
+
+/** Transports used by a plan, in order. */
+export function planTransports(plan: TravelPlan | null): Transport[] {
+  return plan?.segments.flatMap((s) => (s.kind === "transport" ? [s.transport] : [])) ?? [];
+}
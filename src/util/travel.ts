@@ -0,0 +1,163 @@
+import type { StoredQuest } from "../stores/questStore";
+import type { WorldPoint } from "../types/QuestData";
+import type { QuestStep, Step } from "../types/Steps";
+import { getFlatIndex } from "./routeOrder";
+import type { TravelPlan } from "./transportRouter";
+
+/**
+ * Straight-line travel estimates between consecutive route steps.
+ *
+ * Distances are Chebyshev (diagonal moves cost one tile, as in game). Walking
+ * covers one tile per tick and running two; a tick is 0.6 seconds. Legs that
+ * change plane or cross between the surface and underground (y > 6400) can't
+ * be measured in a straight line and are flagged instead. When a walking
+ * path over the collision map is known, its tile count replaces the
+ * straight-line distance.
+ */
+
+export const TICK_SECONDS = 0.6;
+export const WALK_TILES_PER_TICK = 1;
+export const RUN_TILES_PER_TICK = 2;
+
+/** World y above which tiles belong to the underground/instanced map area. */
+export const DUNGEON_Y_THRESHOLD = 6400;
+
+export type UnmeasurableReason = "plane" | "dungeon";
+
+export interface RouteLeg {
+  /** Position used for the step; may be inherited from an earlier quest step. */
+  worldpoint?: WorldPoint;
+  inherited: boolean;
+  /** Position of the closest earlier step that has one. */
+  from?: WorldPoint;
+  /** Tiles from the previous positioned step; null for the first one or when unmeasurable. */
+  distance: number | null;
+  walkTicks: number | null;
+  runTicks: number | null;
+  /** True when `distance` comes from a collision-map path rather than a straight line. */
+  pathed: boolean;
+  unmeasurable?: UnmeasurableReason;
+  /** Measured tiles from the start of the route up to and including this leg. */
+  runningDistance: number;
+  /** Cheapest walking/transport plan from `from`, once attachTravelPlans has run; null when unreachable. */
+  plan?: TravelPlan | null;
+}
+
+export interface RouteTravelTotals {
+  distance: number;
+  walkTicks: number;
+  runTicks: number;
+  /** Ticks following each leg's travel plan, falling back to running. */
+  plannedTicks: number;
+  /** Legs that were skipped because of a plane or dungeon change. */
+  unmeasurableLegs: number;
+}
+
+/**
+ * Returns the worldpoint for a quest's flat step, walking back to the nearest
+ * earlier step that has one. `inherited` is true when the step had none itself.
+ */
+export function findStepWorldPoint(
+  flatSteps: QuestStep[],
+  index: number
+): { worldpoint?: WorldPoint; inherited: boolean } {
+  const step = flatSteps[index];
+  if (step?.worldpoint) return { worldpoint: step.worldpoint, inherited: false };
+  for (let i = index - 1; i >= 0; i -= 1) {
+    const previousStep = flatSteps[i];
+    if (previousStep?.worldpoint) return { worldpoint: previousStep.worldpoint, inherited: true };
+  }
+  return { inherited: false };
+}
+
+export function isUnderground(point: WorldPoint): boolean {
+  return point.y > DUNGEON_Y_THRESHOLD;
+}
+
+/** Chebyshev tile distance, ignoring plane. */
+export function tileDistance(a: WorldPoint, b: WorldPoint): number {
+  return Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+}
+
+export function getUnmeasurableReason(a: WorldPoint, b: WorldPoint): UnmeasurableReason | undefined {
+  if (a.plane !== b.plane) return "plane";
+  if (isUnderground(a) !== isUnderground(b)) return "dungeon";
+  return undefined;
+}
+
+export function ticksForDistance(distance: number, tilesPerTick: number): number {
+  return Math.ceil(distance / tilesPerTick);
+}
+
+/** Formats ticks as e.g. "42t (25s)" or "300t (3m 0s)". */
+export function formatTicks(ticks: number): string {
+  const seconds = Math.round(ticks * TICK_SECONDS);
+  const time = seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+  return `${ticks}t (${time})`;
+}
+
+function resolveRouteStepWorldPoint(
+  step: Step,
+  quests: Record<string, StoredQuest>
+): { worldpoint?: WorldPoint; inherited: boolean } {
+  if (step.worldpoint) return { worldpoint: step.worldpoint, inherited: false };
+  if (step.kind !== "quest") return { inherited: false };
+  const quest = quests[step.questId];
+  const flatIndex = getFlatIndex(quest, step.id);
+  if (!quest || flatIndex === -1) return { inherited: false };
+  return findStepWorldPoint(quest.flatSteps, flatIndex);
+}
+
+/**
+ * Tile count of a known walking path between two points, if one has been
+ * computed; `index` is the route index of the step the leg ends at.
+ */
+export type WalkedTilesLookup = (from: WorldPoint, to: WorldPoint, index: number) => number | undefined;
+
+/** One leg per route step, measured from the closest earlier step that has a position. */
+export function computeRouteLegs(
+  route: Step[],
+  quests: Record<string, StoredQuest>,
+  walkedTiles?: WalkedTilesLookup
+): RouteLeg[] {
+  let previous: WorldPoint | undefined;
+  let runningDistance = 0;
+
+  return route.map((step, index) => {
+    const { worldpoint, inherited } = resolveRouteStepWorldPoint(step, quests);
+    const leg: RouteLeg = { worldpoint, inherited, distance: null, walkTicks: null, runTicks: null, pathed: false, runningDistance };
+
+    if (worldpoint && previous) {
+      leg.from = previous;
+      const unmeasurable = getUnmeasurableReason(previous, worldpoint);
+      if (unmeasurable) {
+        leg.unmeasurable = unmeasurable;
+      } else {
+        const walked = walkedTiles?.(previous, worldpoint, index);
+        const distance = walked ?? tileDistance(previous, worldpoint);
+        leg.distance = distance;
+        leg.pathed = walked !== undefined;
+        leg.walkTicks = ticksForDistance(distance, WALK_TILES_PER_TICK);
+        leg.runTicks = ticksForDistance(distance, RUN_TILES_PER_TICK);
+        runningDistance += distance;
+        leg.runningDistance = runningDistance;
+      }
+    }
+
+    if (worldpoint) previous = worldpoint;
+    return leg;
+  });
+}
+
+export function sumRouteLegs(legs: RouteLeg[]): RouteTravelTotals {
+  return legs.reduce<RouteTravelTotals>(
+    (totals, leg) => ({
+      distance: totals.distance + (leg.distance ?? 0),
+      walkTicks: totals.walkTicks + (leg.walkTicks ?? 0),
+      runTicks: totals.runTicks + (leg.runTicks ?? 0),
+      plannedTicks: totals.plannedTicks + (leg.plan?.ticks ?? leg.runTicks ?? 0),
+      unmeasurableLegs: totals.unmeasurableLegs + (leg.unmeasurable ? 1 : 0),
+    }),
+    { distance: 0, walkTicks: 0, runTicks: 0, plannedTicks: 0, unmeasurableLegs: 0 }
+  );
+}
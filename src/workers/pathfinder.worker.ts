@@ -0,0 +1,69 @@
+import {
+  COLLISION_FORMAT,
+  COLLISION_VERSION,
+  type CollisionIndex,
+  type PathRequest,
+  type PathResponse,
+} from "../types/Collision";
+import { findPath, REGION_BYTES, regionKeysBetween, simplifyPath } from "../util/pathfinding";
+
+/**
+ * Walking paths off the main thread. Region bitsets are fetched on demand
+ * from public/data/collision/ and cached for the lifetime of the worker.
+ */
+
+const COLLISION_URL = "/data/collision";
+
+let indexPromise: Promise<Set<string> | null> | null = null;
+const regions = new Map<string, Uint8Array>();
+let queue = Promise.resolve();
+
+/** Available region keys, or null when no collision data has been built. */
+function loadIndex(): Promise<Set<string> | null> {
+  indexPromise ??= fetch(`${COLLISION_URL}/index.json`)
+    .then(async (response) => {
+      if (!response.ok) return null;
+      const index = (await response.json()) as CollisionIndex;
+      if (index.format !== COLLISION_FORMAT || index.version !== COLLISION_VERSION) return null;
+      return new Set(index.regions);
+    })
+    // The dev server answers missing files with index.html, which fails to parse.
+    .catch(() => null);
+  return indexPromise;
+}
+
+async function loadRegions(keys: string[], available: Set<string>): Promise<void> {
+  await Promise.all(
+    keys
+      .filter((key) => available.has(key) && !regions.has(key))
+      .map(async (key) => {
+        const response = await fetch(`${COLLISION_URL}/${key}.bin`);
+        if (!response.ok) return;
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        if (bytes.length === REGION_BYTES) regions.set(key, bytes);
+      })
+  );
+}
+
+async function handleRequest(request: PathRequest): Promise<PathResponse> {
+  const available = await loadIndex();
+  if (!available) return { key: request.key, status: "unavailable" };
+
+  await loadRegions(regionKeysBetween(request.from, request.to), available);
+  const path = findPath(request.from, request.to, (key) => regions.get(key), request.edges);
+  if (!path) return { key: request.key, status: "no-path" };
+  return { key: request.key, status: "ok", tiles: path.length - 1, path: simplifyPath(path) };
+}
+
+self.addEventListener("message", (event: MessageEvent<PathRequest>) => {
+  // Searches run one at a time so a burst of requests can't exhaust memory.
+  queue = queue.then(() =>
+    handleRequest(event.data).then(
+      (response) => self.postMessage(response),
+      (error) => {
+        console.error("Pathfinding failed:", error);
+        self.postMessage({ key: event.data.key, status: "no-path" } satisfies PathResponse);
+      }
+    )
+  );
+});
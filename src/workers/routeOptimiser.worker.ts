@@ -0,0 +1,6 @@
+import { optimiseRouteOrder, type OptimiserInput } from "../util/routeOptimiser";
+
+/** Runs the route optimiser off the main thread; see src/util/routeOptimiser.ts. */
+self.addEventListener("message", (event: MessageEvent<OptimiserInput>) => {
+  self.postMessage(optimiseRouteOrder(event.data));
+});